@@ -26,8 +26,74 @@ export const config = {
     secret: process.env.JWT_SECRET || 'change-this-to-a-secure-random-string',
     expiresIn: process.env.JWT_EXPIRES_IN || '7d',
   },
+  sealedSender: {
+    /** Base64 32-byte Ed25519 seed for signing sender certificates. */
+    certificateSigningKey: process.env.SENDER_CERTIFICATE_SIGNING_KEY || '',
+    /** Lifetime of an issued sender certificate. */
+    certificateTtlMs: parseInt(process.env.SENDER_CERTIFICATE_TTL_MS || '86400000', 10),
+  },
   /** Threshold below which clients are told to upload more one-time pre-keys. */
   lowKeyThreshold: parseInt(process.env.LOW_KEY_THRESHOLD || '20', 10),
+  signedPreKey: {
+    /** Age after which clients are told to rotate their signed pre-key. */
+    maxAgeDays: parseInt(process.env.SIGNED_PRE_KEY_MAX_AGE_DAYS || '30', 10),
+    /** Signed pre-keys kept per device by the cleanup job (newest first). */
+    retainCount: parseInt(process.env.SIGNED_PRE_KEY_RETAIN_COUNT || '5', 10),
+  },
+  socket: {
+    /** `postgres` (cross-instance rooms via LISTEN/NOTIFY) or `memory` (single instance). */
+    adapter: process.env.SOCKET_ADAPTER || 'postgres',
+  },
+  delivery: {
+    /** How long a pushed message may stay unacknowledged before it is re-emitted. */
+    ackTimeoutMs: parseInt(process.env.MESSAGE_ACK_TIMEOUT_MS || '30000', 10),
+    /** Socket push attempts before a message is left for `/api/messages/offline`. */
+    maxAttempts: parseInt(process.env.MESSAGE_MAX_DELIVERY_ATTEMPTS || '5', 10),
+    /** Lifetime of a queued message, and the upper bound for a per-message `ttl`. */
+    maxTtlSeconds: parseInt(process.env.MESSAGE_MAX_TTL_SECONDS || '2592000', 10),
+    /** How far in the future a message may be scheduled with `deliverAt`. */
+    maxScheduleAheadSeconds: parseInt(
+      process.env.MESSAGE_MAX_SCHEDULE_AHEAD_SECONDS || '2592000',
+      10
+    ),
+  },
+  blocks: {
+    /**
+     * `drop` — a blocked sender's message is discarded but reported as queued,
+     * so they cannot tell they are blocked; `reject` — they get a 403.
+     */
+    messageResponse: process.env.BLOCKED_MESSAGE_RESPONSE || 'drop',
+  },
+  calls: {
+    /** How long an unanswered call rings before it ends as missed. */
+    ringTimeoutMs: parseInt(process.env.CALL_RING_TIMEOUT_MS || '45000', 10),
+    /** How long an ended call's row is kept before it is purged. */
+    endedRetentionSeconds: parseInt(process.env.CALL_ENDED_RETENTION_SECONDS || '300', 10),
+    turn: {
+      /** Shared secret for TURN REST API credentials; empty disables issuance. */
+      sharedSecret: process.env.TURN_SHARED_SECRET || '',
+      uris: (process.env.TURN_URIS || '')
+        .split(',')
+        .map((uri) => uri.trim())
+        .filter((uri) => uri.length > 0),
+      /** Lifetime of issued credentials. */
+      credentialTtlSeconds: parseInt(process.env.TURN_CREDENTIAL_TTL_SECONDS || '86400', 10),
+    },
+  },
+  push: {
+    /** `fcm`, `stub` (local driver that only logs/records pushes) or `none`. */
+    provider: process.env.PUSH_PROVIDER || 'none',
+    /** Attempts per push before giving up on a transient failure. */
+    maxAttempts: parseInt(process.env.PUSH_MAX_ATTEMPTS || '3', 10),
+    /** Base delay for exponential backoff between attempts. */
+    retryBaseDelayMs: parseInt(process.env.PUSH_RETRY_BASE_DELAY_MS || '500', 10),
+    fcm: {
+      projectId: process.env.FCM_PROJECT_ID || '',
+      clientEmail: process.env.FCM_CLIENT_EMAIL || '',
+      // Allow the PEM key to be passed on a single line with escaped newlines
+      privateKey: (process.env.FCM_PRIVATE_KEY || '').replace(/\\n/g, '\n'),
+    },
+  },
 };
 
 // --- Startup validations ---
@@ -46,3 +112,83 @@ if (!VALID_JWT_EXPIRES_IN.test(config.jwt.expiresIn)) {
       'Expected a value like "7d", "24h", "3600s", or "30m".'
   );
 }
+
+if (!(config.signedPreKey.maxAgeDays >= 1) || !(config.signedPreKey.retainCount >= 1)) {
+  throw new Error(
+    'SIGNED_PRE_KEY_MAX_AGE_DAYS and SIGNED_PRE_KEY_RETAIN_COUNT must be at least 1.'
+  );
+}
+
+if (!config.sealedSender.certificateSigningKey) {
+  if (config.server.nodeEnv === 'production') {
+    throw new Error(
+      'SENDER_CERTIFICATE_SIGNING_KEY must be set in production — refusing to start without it.'
+    );
+  }
+  console.warn(
+    '⚠️  WARNING: SENDER_CERTIFICATE_SIGNING_KEY not set — using an ephemeral key; ' +
+      'sender certificates will not survive a restart.'
+  );
+} else if (Buffer.from(config.sealedSender.certificateSigningKey, 'base64').length !== 32) {
+  throw new Error('SENDER_CERTIFICATE_SIGNING_KEY must be a base64-encoded 32-byte Ed25519 seed.');
+}
+
+if (!(config.delivery.ackTimeoutMs >= 1) || !(config.delivery.maxAttempts >= 1)) {
+  throw new Error('MESSAGE_ACK_TIMEOUT_MS and MESSAGE_MAX_DELIVERY_ATTEMPTS must be at least 1.');
+}
+
+if (!(config.delivery.maxTtlSeconds >= 1) || !(config.delivery.maxScheduleAheadSeconds >= 1)) {
+  throw new Error(
+    'MESSAGE_MAX_TTL_SECONDS and MESSAGE_MAX_SCHEDULE_AHEAD_SECONDS must be at least 1.'
+  );
+}
+
+if (!(config.calls.ringTimeoutMs >= 1000)) {
+  throw new Error('CALL_RING_TIMEOUT_MS must be at least 1000.');
+}
+
+if (!(config.calls.endedRetentionSeconds >= 0)) {
+  throw new Error('CALL_ENDED_RETENTION_SECONDS must be a non-negative number.');
+}
+
+if (config.calls.turn.sharedSecret) {
+  if (!(config.calls.turn.credentialTtlSeconds >= 1)) {
+    throw new Error('TURN_CREDENTIAL_TTL_SECONDS must be at least 1.');
+  }
+  if (config.calls.turn.uris.length === 0) {
+    throw new Error('TURN_SHARED_SECRET requires TURN_URIS to list at least one TURN server.');
+  }
+}
+
+const VALID_BLOCKED_MESSAGE_RESPONSES = ['drop', 'reject'];
+if (!VALID_BLOCKED_MESSAGE_RESPONSES.includes(config.blocks.messageResponse)) {
+  throw new Error(
+    `Invalid BLOCKED_MESSAGE_RESPONSE value "${config.blocks.messageResponse}". ` +
+      `Expected one of: ${VALID_BLOCKED_MESSAGE_RESPONSES.join(', ')}.`
+  );
+}
+
+const VALID_SOCKET_ADAPTERS = ['postgres', 'memory'];
+if (!VALID_SOCKET_ADAPTERS.includes(config.socket.adapter)) {
+  throw new Error(
+    `Invalid SOCKET_ADAPTER value "${config.socket.adapter}". ` +
+      `Expected one of: ${VALID_SOCKET_ADAPTERS.join(', ')}.`
+  );
+}
+
+const VALID_PUSH_PROVIDERS = ['fcm', 'stub', 'none'];
+if (!VALID_PUSH_PROVIDERS.includes(config.push.provider)) {
+  throw new Error(
+    `Invalid PUSH_PROVIDER value "${config.push.provider}". ` +
+      `Expected one of: ${VALID_PUSH_PROVIDERS.join(', ')}.`
+  );
+}
+
+if (
+  config.push.provider === 'fcm' &&
+  (!config.push.fcm.projectId || !config.push.fcm.clientEmail || !config.push.fcm.privateKey)
+) {
+  throw new Error(
+    'PUSH_PROVIDER=fcm requires FCM_PROJECT_ID, FCM_CLIENT_EMAIL and FCM_PRIVATE_KEY to be set.'
+  );
+}
@@ -1,42 +1,85 @@
 import { Request, Response } from 'express';
 import jwt from 'jsonwebtoken';
 import { config } from '../config';
-import { User, AuthChallenge, Device, OneTimePreKey } from '../models';
-import { generateNonce, verifySignature } from '../utils/crypto';
+import {
+  User,
+  AuthChallenge,
+  Device,
+  OneTimePreKey,
+  LastResortPreKey,
+  KyberPreKey,
+  KyberLastResortPreKey,
+} from '../models';
+import {
+  generateNonce,
+  verifySignature,
+  isValidEd25519Signature,
+  isValidEd25519PublicKey,
+} from '../utils/crypto';
 import { ApiResponse } from '../types';
 import { AuthenticatedRequest, JwtPayload } from '../middleware/auth';
+import { revokeDeviceSessions } from '../socket';
 
 /** Max allowed length for deviceId (must fit VARCHAR(255)). */
 const MAX_DEVICE_ID_LENGTH = 255;
 
-/** Ed25519 signature is 64 bytes → 88 chars in base64. */
-const BASE64_SIGNATURE_REGEX = /^[A-Za-z0-9+/]+={0,2}$/;
-const ED25519_SIGNATURE_BYTES = 64;
+/** Max allowed length for a user-visible device name (must fit VARCHAR(255)). */
+const MAX_DEVICE_NAME_LENGTH = 255;
+
+/** FCM token constraints. */
+const MAX_FCM_TOKEN_LENGTH = 512;
+const FCM_TOKEN_REGEX = /^[A-Za-z0-9_\-:.]+$/;
+
+/** Registration IDs must fit a Postgres INTEGER column. */
+const MAX_REGISTRATION_ID = 2_147_483_647;
 
 /**
- * Validate that a value looks like a well-formed base64-encoded Ed25519
- * signature (64 raw bytes → 88 base64 characters).
- *
- * Returning an object (instead of branching on the user value inline)
- * avoids CodeQL's "user-controlled bypass of security check" pattern.
+ * Validate an optional FCM token.  Returns a string describing the
+ * validation error, or `null` if the token is absent or well-formed.
  */
-function isValidEd25519Signature(value: string): boolean {
-  if (value.length > 100 || !BASE64_SIGNATURE_REGEX.test(value)) {
-    return false;
+export function validateFcmToken(fcmToken: unknown): string | null {
+  if (fcmToken === undefined || fcmToken === null) {
+    return null;
+  }
+  if (typeof fcmToken !== 'string') {
+    return 'Invalid fcmToken: must be a string';
+  }
+  const trimmed = fcmToken.trim();
+  if (trimmed.length === 0 || trimmed.length > MAX_FCM_TOKEN_LENGTH) {
+    return `Invalid fcmToken: length must be between 1 and ${MAX_FCM_TOKEN_LENGTH} characters`;
   }
-  const decoded = Buffer.from(value, 'base64');
-  return decoded.length === ED25519_SIGNATURE_BYTES;
+  if (!FCM_TOKEN_REGEX.test(trimmed)) {
+    return 'Invalid fcmToken: contains unsupported characters';
+  }
+  return null;
 }
 
-/** FCM token constraints. */
-const MAX_FCM_TOKEN_LENGTH = 512;
-const FCM_TOKEN_REGEX = /^[A-Za-z0-9_\-:.]+$/;
+/**
+ * Validate an optional device name.  Returns a string describing the
+ * validation error, or `null` if the name is absent or well-formed.
+ */
+export function validateDeviceName(deviceName: unknown): string | null {
+  if (deviceName === undefined || deviceName === null) {
+    return null;
+  }
+  if (typeof deviceName !== 'string') {
+    return 'Invalid deviceName: must be a string';
+  }
+  const trimmed = deviceName.trim();
+  if (trimmed.length === 0 || trimmed.length > MAX_DEVICE_NAME_LENGTH) {
+    return `Invalid deviceName: length must be between 1 and ${MAX_DEVICE_NAME_LENGTH} characters`;
+  }
+  return null;
+}
 
 interface VerifyInput {
   username: string;
   signature: string;
   deviceId: string;
   fcmToken?: string;
+  registrationId?: number;
+  identityPublicKey?: string;
+  deviceName?: string;
 }
 
 /**
@@ -49,7 +92,8 @@ interface VerifyInput {
  * that gates the subsequent cryptographic verification.
  */
 function validateVerifyInput(body: Record<string, unknown>): VerifyInput | string {
-  const { username, signature, deviceId, fcmToken } = body;
+  const { username, signature, deviceId, fcmToken, registrationId, identityPublicKey, deviceName } =
+    body;
 
   // --- Required field type & presence checks ---
   if (
@@ -74,24 +118,44 @@ function validateVerifyInput(body: Record<string, unknown>): VerifyInput | strin
   }
 
   // --- Optional fcmToken ---
-  if (fcmToken !== undefined && fcmToken !== null) {
-    if (typeof fcmToken !== 'string') {
-      return 'Invalid fcmToken: must be a string';
-    }
-    const trimmed = fcmToken.trim();
-    if (trimmed.length === 0 || trimmed.length > MAX_FCM_TOKEN_LENGTH) {
-      return `Invalid fcmToken: length must be between 1 and ${MAX_FCM_TOKEN_LENGTH} characters`;
+  const fcmTokenError = validateFcmToken(fcmToken);
+  if (fcmTokenError) {
+    return fcmTokenError;
+  }
+
+  // --- Optional per-device registrationId ---
+  if (registrationId !== undefined && registrationId !== null) {
+    if (
+      typeof registrationId !== 'number' ||
+      !Number.isInteger(registrationId) ||
+      registrationId < 1 ||
+      registrationId > MAX_REGISTRATION_ID
+    ) {
+      return 'Invalid registrationId: must be a positive integer';
     }
-    if (!FCM_TOKEN_REGEX.test(trimmed)) {
-      return 'Invalid fcmToken: contains unsupported characters';
+  }
+
+  // --- Optional per-device identityPublicKey ---
+  if (identityPublicKey !== undefined && identityPublicKey !== null) {
+    if (typeof identityPublicKey !== 'string' || !isValidEd25519PublicKey(identityPublicKey)) {
+      return 'Invalid identityPublicKey: must be a base64-encoded 32-byte key';
     }
   }
 
+  // --- Optional human-readable device name ---
+  const deviceNameError = validateDeviceName(deviceName);
+  if (deviceNameError) {
+    return deviceNameError;
+  }
+
   return {
     username: username.trim(),
     signature,
     deviceId,
     fcmToken: typeof fcmToken === 'string' ? fcmToken : undefined,
+    registrationId: typeof registrationId === 'number' ? registrationId : undefined,
+    identityPublicKey: typeof identityPublicKey === 'string' ? identityPublicKey : undefined,
+    deviceName: typeof deviceName === 'string' ? deviceName.trim() : undefined,
   };
 }
 
@@ -171,14 +235,20 @@ export async function generateChallenge(req: Request, res: Response): Promise<vo
  * POST /api/auth/verify
  *
  * Verifies the client's Ed25519 signature over the previously issued
- * nonce and, on success, returns a JWT.
+ * nonce and, on success, returns a JWT.  Logging in again with a known
+ * `deviceId` starts a new session: tokens issued to the device earlier stop
+ * working and its open sockets are closed with `device_replaced`.
  *
  * @body {string}  username   - The registered username.
  * @body {string}  signature  - Base64-encoded Ed25519 signature (64 bytes → 88 chars).
  * @body {string}  deviceId   - Client-generated device identifier (max 255 chars).
  * @body {string}  [fcmToken] - Optional Firebase Cloud Messaging token (max 512 chars).
+ * @body {number}  [registrationId]    - Per-device registration ID (defaults to the user's).
+ * @body {string}  [identityPublicKey] - Per-device identity key (defaults to the user's).
+ * @body {string}  [deviceName]        - Human-readable device name shown in the session list.
  *
- * @returns {{ token: string; user: { id: string; username: string }; remainingKeyCount: number; lowKeyCount: boolean }}
+ * @returns {{ token: string; user: { id: string; username: string }; remainingKeyCount: number; lowKeyCount: boolean;
+ *             hasLastResortKey: boolean; remainingKyberKeyCount: number; lowKyberKeyCount: boolean; hasKyberLastResortKey: boolean }}
  *
  * @error 400 - Missing / malformed fields, or no active challenge.
  * @error 401 - Authentication failed (bad user, bad signature, etc.).
@@ -197,7 +267,15 @@ export async function verifyChallenge(req: Request, res: Response): Promise<void
       return;
     }
 
-    const { username, signature, deviceId, fcmToken } = validationResult;
+    const {
+      username,
+      signature,
+      deviceId,
+      fcmToken,
+      registrationId,
+      identityPublicKey,
+      deviceName,
+    } = validationResult;
 
     // Find the user (generic error to prevent user enumeration)
     const user = await User.findByUsername(username);
@@ -236,34 +314,46 @@ export async function verifyChallenge(req: Request, res: Response): Promise<void
       return;
     }
 
-    // Single session enforcement:
-    // Delete all devices for this user and insert the current one
-    await Device.upsertDevice(
+    // Register (or refresh) this device alongside the user's other devices.
+    // This starts a new session, invalidating the device's earlier tokens.
+    const device = await Device.upsertDevice(
       user.id,
       deviceId,
-      user.identity_public_key,
-      user.registration_id,
-      fcmToken
+      identityPublicKey ?? user.identity_public_key,
+      registrationId ?? user.registration_id,
+      fcmToken,
+      deviceName
     );
 
+    // Only now close the sockets of the session this login replaces
+    revokeDeviceSessions(user.id, deviceId, 'device_replaced');
+
     // Generate JWT
     const payload: JwtPayload = {
       userId: user.id,
       deviceId,
+      sessionId: device.session_id,
     };
 
     const token = jwt.sign(payload, config.jwt.secret, {
       expiresIn: config.jwt.expiresIn,
     } as jwt.SignOptions);
 
-    // Check remaining one-time pre-keys so the client can replenish early
-    const remainingKeys = await OneTimePreKey.countByUserId(user.id);
+    // Check this device's remaining one-time pre-keys so the client can replenish early
+    const remainingKeys = await OneTimePreKey.countByDevice(user.id, deviceId);
+    const lastResortKey = await LastResortPreKey.findByDevice(user.id, deviceId);
+    const remainingKyberKeys = await KyberPreKey.countByDevice(user.id, deviceId);
+    const kyberLastResortKey = await KyberLastResortPreKey.findByDevice(user.id, deviceId);
 
     const response: ApiResponse<{
       token: string;
       user: { id: string; username: string };
       remainingKeyCount: number;
       lowKeyCount: boolean;
+      hasLastResortKey: boolean;
+      remainingKyberKeyCount: number;
+      lowKyberKeyCount: boolean;
+      hasKyberLastResortKey: boolean;
     }> = {
       success: true,
       data: {
@@ -274,6 +364,10 @@ export async function verifyChallenge(req: Request, res: Response): Promise<void
         },
         remainingKeyCount: remainingKeys,
         lowKeyCount: remainingKeys < config.lowKeyThreshold,
+        hasLastResortKey: !!lastResortKey,
+        remainingKyberKeyCount: remainingKyberKeys,
+        lowKyberKeyCount: remainingKyberKeys < config.lowKeyThreshold,
+        hasKyberLastResortKey: !!kyberLastResortKey,
       },
     };
     res.json(response);
@@ -291,7 +385,8 @@ export async function verifyChallenge(req: Request, res: Response): Promise<void
  * POST /api/auth/logout
  *
  * Deletes the device entry for the current session, effectively
- * invalidating the JWT (the auth middleware will reject it).
+ * invalidating the JWT (the auth middleware will reject it), and closes
+ * the device's open sockets with a `session_revoked` event.
  */
 export async function logout(req: AuthenticatedRequest, res: Response): Promise<void> {
   try {
@@ -305,6 +400,7 @@ export async function logout(req: AuthenticatedRequest, res: Response): Promise<
     }
 
     await Device.deleteByUserIdAndDeviceId(req.user.userId, req.user.deviceId);
+    revokeDeviceSessions(req.user.userId, req.user.deviceId, 'logged_out');
 
     const response: ApiResponse = {
       success: true,
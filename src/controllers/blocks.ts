@@ -0,0 +1,114 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { Block, User } from '../models';
+import { ApiResponse } from '../types';
+import { PresenceService } from '../services/PresenceService';
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * GET /api/blocks
+ *
+ * List the users the authenticated user has blocked, most recent first.
+ *
+ * @returns {Array<{ userId: string; blockedAt: Date }>}
+ */
+export async function listBlocks(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Not authenticated' } as ApiResponse);
+      return;
+    }
+
+    const blocks = await Block.findByBlocker(req.user.userId);
+    const data = blocks.map((b) => ({ userId: b.blocked_id, blockedAt: b.created_at }));
+
+    const response: ApiResponse<typeof data> = { success: true, data };
+    res.json(response);
+  } catch (error) {
+    console.error('Error listing blocks:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' } as ApiResponse);
+  }
+}
+
+/**
+ * POST /api/blocks
+ *
+ * Block a user.  Their 1:1 messages and call offers to the authenticated
+ * user are no longer relayed (see `BLOCKED_MESSAGE_RESPONSE`), and they can
+ * no longer fetch the user's pre-key bundles to start new sessions or see
+ * their presence (existing presence subscriptions are dropped and must be
+ * re-requested).  Blocking an already-blocked user is a no-op.
+ *
+ * @body {string} userId - UUID of the user to block.
+ *
+ * @error 400 - Missing / malformed userId, or the caller's own ID.
+ * @error 404 - No such user.
+ */
+export async function blockUser(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Not authenticated' } as ApiResponse);
+      return;
+    }
+
+    const { userId } = req.body;
+    if (typeof userId !== 'string' || !UUID_RE.test(userId)) {
+      res.status(400).json({ success: false, error: 'userId must be a valid UUID' } as ApiResponse);
+      return;
+    }
+
+    if (userId === req.user.userId) {
+      res.status(400).json({ success: false, error: 'Cannot block yourself' } as ApiResponse);
+      return;
+    }
+
+    const user = await User.query().findById(userId).select('id');
+    if (!user) {
+      res.status(404).json({ success: false, error: 'User not found' } as ApiResponse);
+      return;
+    }
+
+    await Block.block(req.user.userId, userId);
+    PresenceService.resetSubscribers(req.user.userId);
+
+    res.status(201).json({ success: true, message: 'User blocked' } as ApiResponse);
+  } catch (error) {
+    console.error('Error blocking user:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' } as ApiResponse);
+  }
+}
+
+/**
+ * DELETE /api/blocks/:userId
+ *
+ * Unblock a previously blocked user.
+ *
+ * @error 400 - Malformed userId.
+ * @error 404 - The user was not blocked.
+ */
+export async function unblockUser(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Not authenticated' } as ApiResponse);
+      return;
+    }
+
+    const { userId } = req.params;
+    if (!UUID_RE.test(userId)) {
+      res.status(400).json({ success: false, error: 'userId must be a valid UUID' } as ApiResponse);
+      return;
+    }
+
+    const removed = await Block.unblock(req.user.userId, userId);
+    if (removed === 0) {
+      res.status(404).json({ success: false, error: 'User is not blocked' } as ApiResponse);
+      return;
+    }
+
+    res.json({ success: true, message: 'User unblocked' } as ApiResponse);
+  } catch (error) {
+    console.error('Error unblocking user:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' } as ApiResponse);
+  }
+}
@@ -0,0 +1,133 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { ApiResponse, CallType } from '../types';
+import {
+  callService,
+  CallOfferEnvelope,
+  CallOfferInput,
+  CallSignalInput,
+  TurnCredentials,
+} from '../services/CallService';
+import { validateCiphertext } from './messages';
+
+/** Maximum number of per-device offers accepted in a single `call_offer`. */
+const MAX_CALLEE_DEVICES = 32;
+
+/** Max allowed length for deviceId (must fit VARCHAR(255)). */
+const MAX_DEVICE_ID_LENGTH = 255;
+
+const CALL_TYPES = new Set<CallType>(['audio', 'video']);
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// ---------------------------------------------------------------------------
+// Input validation helpers (shared with the Socket.io call events)
+// ---------------------------------------------------------------------------
+
+/**
+ * Validate a `call_offer` payload.
+ * Returns a typed object on success or an error string on failure.
+ */
+export function validateCallOfferInput(payload: Record<string, unknown>): CallOfferInput | string {
+  const { calleeId, callType, offers } = payload;
+
+  if (typeof calleeId !== 'string' || !UUID_RE.test(calleeId)) {
+    return 'calleeId must be a valid UUID';
+  }
+
+  if (typeof callType !== 'string' || !CALL_TYPES.has(callType as CallType)) {
+    return `Invalid callType. Allowed: ${[...CALL_TYPES].join(', ')}`;
+  }
+
+  if (!Array.isArray(offers) || offers.length === 0 || offers.length > MAX_CALLEE_DEVICES) {
+    return `offers must be an array of 1-${MAX_CALLEE_DEVICES} per-device envelopes`;
+  }
+
+  const validated: CallOfferEnvelope[] = [];
+  const seenDevices = new Set<string>();
+  for (const entry of offers) {
+    const { deviceId, ciphertext } = (entry ?? {}) as Record<string, unknown>;
+    if (
+      typeof deviceId !== 'string' ||
+      typeof ciphertext !== 'string' ||
+      deviceId.trim().length === 0 ||
+      deviceId.length > MAX_DEVICE_ID_LENGTH ||
+      ciphertext.length === 0
+    ) {
+      return 'Each entry in offers requires deviceId and ciphertext';
+    }
+    const ciphertextError = validateCiphertext(ciphertext);
+    if (ciphertextError) {
+      return ciphertextError;
+    }
+    if (seenDevices.has(deviceId)) {
+      return `Duplicate deviceId in offers: ${deviceId}`;
+    }
+    seenDevices.add(deviceId);
+    validated.push({ deviceId, ciphertext });
+  }
+
+  return { calleeId, callType: callType as CallType, offers: validated };
+}
+
+/**
+ * Validate a `call_answer` / `ice_candidate` payload.
+ * Returns a typed object on success or an error string on failure.
+ */
+export function validateCallSignalInput(
+  payload: Record<string, unknown>
+): CallSignalInput | string {
+  const { callId, ciphertext } = payload;
+
+  if (typeof callId !== 'string' || !UUID_RE.test(callId)) {
+    return 'callId must be a valid UUID';
+  }
+
+  if (typeof ciphertext !== 'string' || ciphertext.length === 0) {
+    return 'Missing required field: ciphertext';
+  }
+  const ciphertextError = validateCiphertext(ciphertext);
+  if (ciphertextError) {
+    return ciphertextError;
+  }
+
+  return { callId, ciphertext };
+}
+
+// ---------------------------------------------------------------------------
+// Controllers
+// ---------------------------------------------------------------------------
+
+/**
+ * GET /api/calls/turn-credentials
+ *
+ * Issue time-limited TURN credentials (TURN REST API scheme: the username
+ * is `<expiry unix time>:<userId>` and the credential its base64
+ * HMAC-SHA1 under the secret shared with the TURN server).
+ *
+ * @returns {{ username: string; credential: string; ttl: number; uris: string[] }}
+ *
+ * @error 401 - Not authenticated.
+ * @error 503 - TURN is not configured on this server.
+ * @error 500 - Internal server error.
+ */
+export async function getTurnCredentials(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Not authenticated' } as ApiResponse);
+      return;
+    }
+
+    const credentials = callService.issueTurnCredentials(req.user.userId);
+    if (!credentials) {
+      res.status(503).json({ success: false, error: 'TURN is not configured' } as ApiResponse);
+      return;
+    }
+
+    const response: ApiResponse<TurnCredentials> = { success: true, data: credentials };
+    res.json(response);
+  } catch (error) {
+    console.error('Error issuing TURN credentials:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' } as ApiResponse);
+  }
+}
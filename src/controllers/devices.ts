@@ -0,0 +1,209 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { Device } from '../models';
+import { ApiResponse } from '../types';
+import { clientKey, findOnlineClientKeys, revokeDeviceSessions } from '../socket';
+import { validateDeviceName, validateFcmToken } from './auth';
+
+/** A device session as shown to its owner.  Never includes the push token. */
+interface DeviceSession {
+  deviceId: string;
+  deviceName: string | null;
+  current: boolean;
+  online: boolean;
+  pushEnabled: boolean;
+  lastSeenAt: string;
+  createdAt: string;
+}
+
+/**
+ * GET /api/devices
+ *
+ * List every device (session) of the authenticated user, oldest first,
+ * with whether it is currently connected to any server instance.
+ *
+ * @returns {DeviceSession[]}
+ *
+ * @error 401 - Not authenticated.
+ * @error 500 - Internal server error.
+ */
+export async function listDevices(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Not authenticated' } as ApiResponse);
+      return;
+    }
+
+    const { userId, deviceId } = req.user;
+    const devices = await Device.findByUserId(userId);
+
+    const onlineKeys = await findOnlineClientKeys(
+      devices.map((device) => ({ userId, deviceId: device.device_id }))
+    );
+
+    const sessions: DeviceSession[] = devices.map((device) => ({
+      deviceId: device.device_id,
+      deviceName: device.device_name ?? null,
+      current: device.device_id === deviceId,
+      online: onlineKeys.has(clientKey(userId, device.device_id)),
+      pushEnabled: !!device.fcm_token,
+      lastSeenAt: new Date(device.last_seen_at).toISOString(),
+      createdAt: new Date(device.created_at).toISOString(),
+    }));
+
+    const response: ApiResponse<DeviceSession[]> = { success: true, data: sessions };
+    res.json(response);
+  } catch (error) {
+    console.error('Error listing devices:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' } as ApiResponse);
+  }
+}
+
+/**
+ * PATCH /api/devices/:deviceId
+ *
+ * Rename one of the authenticated user's devices.
+ *
+ * @body {string} deviceName - New human-readable name (max 255 chars).
+ *
+ * @error 400 - Missing or malformed name.
+ * @error 401 - Not authenticated.
+ * @error 404 - The user has no such device.
+ * @error 500 - Internal server error.
+ */
+export async function renameDevice(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Not authenticated' } as ApiResponse);
+      return;
+    }
+
+    const { deviceName } = req.body;
+
+    if (deviceName === undefined || deviceName === null) {
+      res.status(400).json({
+        success: false,
+        error: 'Missing required field: deviceName',
+      } as ApiResponse);
+      return;
+    }
+
+    const validationError = validateDeviceName(deviceName);
+    if (validationError) {
+      res.status(400).json({ success: false, error: validationError } as ApiResponse);
+      return;
+    }
+
+    const device = await Device.rename(req.user.userId, req.params.deviceId, deviceName.trim());
+
+    if (!device) {
+      res.status(404).json({ success: false, error: 'Device not found' } as ApiResponse);
+      return;
+    }
+
+    const response: ApiResponse<{ deviceId: string; deviceName: string | null }> = {
+      success: true,
+      data: { deviceId: device.device_id, deviceName: device.device_name ?? null },
+      message: 'Device renamed',
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Error renaming device:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' } as ApiResponse);
+  }
+}
+
+/**
+ * DELETE /api/devices/:deviceId
+ *
+ * Sign one of the authenticated user's devices out remotely.  The device
+ * row (and with it the device's pre-keys) is deleted, so its JWT is
+ * rejected from now on, and its open sockets receive a `session_revoked`
+ * event with reason `device_revoked` before being disconnected.
+ *
+ * @error 401 - Not authenticated.
+ * @error 404 - The user has no such device.
+ * @error 500 - Internal server error.
+ */
+export async function revokeDevice(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Not authenticated' } as ApiResponse);
+      return;
+    }
+
+    const { userId } = req.user;
+    const { deviceId } = req.params;
+
+    const deleted = await Device.deleteByUserIdAndDeviceId(userId, deviceId);
+    if (deleted === 0) {
+      res.status(404).json({ success: false, error: 'Device not found' } as ApiResponse);
+      return;
+    }
+
+    revokeDeviceSessions(userId, deviceId, 'device_revoked');
+
+    res.json({ success: true, message: 'Device signed out' } as ApiResponse);
+  } catch (error) {
+    console.error('Error revoking device:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' } as ApiResponse);
+  }
+}
+
+/**
+ * PUT /api/devices/push-token
+ *
+ * Register, replace or clear the push token of the authenticated device
+ * without logging in again (e.g. after FCM rotates the token).
+ *
+ * @body {string|null} fcmToken - New FCM token, or `null` to disable pushes.
+ *
+ * @error 400 - Missing or malformed token.
+ * @error 401 - Not authenticated.
+ * @error 500 - Internal server error.
+ */
+export async function updatePushToken(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Not authenticated' } as ApiResponse);
+      return;
+    }
+
+    const { fcmToken } = req.body;
+
+    if (fcmToken === undefined) {
+      res.status(400).json({
+        success: false,
+        error: 'Missing required field: fcmToken (string or null)',
+      } as ApiResponse);
+      return;
+    }
+
+    const validationError = validateFcmToken(fcmToken);
+    if (validationError) {
+      res.status(400).json({ success: false, error: validationError } as ApiResponse);
+      return;
+    }
+
+    const device = await Device.updateFcmToken(
+      req.user.userId,
+      req.user.deviceId,
+      typeof fcmToken === 'string' ? fcmToken.trim() : null
+    );
+
+    if (!device) {
+      res.status(401).json({ success: false, error: 'Authentication failed' } as ApiResponse);
+      return;
+    }
+
+    const response: ApiResponse<{ pushEnabled: boolean }> = {
+      success: true,
+      data: { pushEnabled: device.fcm_token !== null },
+      message: device.fcm_token ? 'Push token updated' : 'Push token cleared',
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Error updating push token:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' } as ApiResponse);
+  }
+}
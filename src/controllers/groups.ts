@@ -0,0 +1,548 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { Group, GroupMember, User } from '../models';
+import { ApiResponse, GroupRole } from '../types';
+import { GroupService } from '../services/GroupService';
+import { validateCiphertext } from './messages';
+
+/** Maximum number of members in a single group. */
+const MAX_GROUP_MEMBERS = 256;
+
+/** Group names are opaque (client-encrypted) blobs; cap their size. */
+const MAX_GROUP_NAME_LENGTH = 1024;
+
+/** Message types accepted on the group fan-out path. */
+const ALLOWED_GROUP_MESSAGE_TYPES = new Set(['sender_key_message']);
+
+const GROUP_ROLES = new Set<GroupRole>(['admin', 'member']);
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Validate an array of user IDs.  Returns the de-duplicated list, or an
+ * error string on failure.
+ */
+function validateUserIds(value: unknown, field: string): string[] | string {
+  if (!Array.isArray(value)) {
+    return `${field} must be an array of user IDs`;
+  }
+  if (value.some((id) => typeof id !== 'string' || !UUID_RE.test(id))) {
+    return `All ${field} must be valid UUIDs`;
+  }
+  return [...new Set(value as string[])];
+}
+
+/**
+ * Resolve the caller's membership of a group.  Non-members get the same
+ * 404 as a missing group so group IDs cannot be probed.
+ */
+async function requireMembership(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<GroupMember | null> {
+  const { id } = req.params;
+
+  if (!UUID_RE.test(id)) {
+    res.status(400).json({ success: false, error: 'Invalid group ID' } as ApiResponse);
+    return null;
+  }
+
+  const membership = await GroupMember.findMembership(id, req.user!.userId);
+  if (!membership) {
+    res.status(404).json({ success: false, error: 'Group not found' } as ApiResponse);
+    return null;
+  }
+
+  return membership;
+}
+
+/** Like `requireMembership`, but also requires the `admin` role. */
+async function requireAdmin(req: AuthenticatedRequest, res: Response): Promise<GroupMember | null> {
+  const membership = await requireMembership(req, res);
+  if (!membership) return null;
+
+  if (!membership.isAdmin) {
+    res.status(403).json({ success: false, error: 'Group admin rights required' } as ApiResponse);
+    return null;
+  }
+
+  return membership;
+}
+
+/** Returns the IDs in `userIds` that do not belong to a registered user. */
+async function findUnknownUsers(userIds: string[]): Promise<string[]> {
+  if (userIds.length === 0) return [];
+  const existing = await User.query().whereIn('id', userIds).select('id');
+  const known = new Set(existing.map((u) => u.id));
+  return userIds.filter((id) => !known.has(id));
+}
+
+function serializeMember(member: GroupMember) {
+  return {
+    userId: member.user_id,
+    role: member.role,
+    addedBy: member.added_by || null,
+    joinedAt: member.created_at,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Controllers
+// ---------------------------------------------------------------------------
+
+/**
+ * POST /api/groups
+ *
+ * Create a group.  The caller becomes its first admin.
+ *
+ * @body {string}   [name]      - Opaque (client-encrypted) group name.
+ * @body {string[]} [memberIds] - Initial members besides the creator.
+ *
+ * @returns {{ id: string; name: string | null; members: Array<{ userId, role }> }}
+ */
+export async function createGroup(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Not authenticated' } as ApiResponse);
+      return;
+    }
+
+    const { name, memberIds = [] } = req.body;
+
+    if (name !== undefined && name !== null) {
+      if (typeof name !== 'string' || name.length > MAX_GROUP_NAME_LENGTH) {
+        res.status(400).json({
+          success: false,
+          error: `name must be a string of at most ${MAX_GROUP_NAME_LENGTH} characters`,
+        } as ApiResponse);
+        return;
+      }
+    }
+
+    const ids = validateUserIds(memberIds, 'memberIds');
+    if (typeof ids === 'string') {
+      res.status(400).json({ success: false, error: ids } as ApiResponse);
+      return;
+    }
+
+    const creatorId = req.user.userId;
+    const otherIds = ids.filter((id) => id !== creatorId);
+
+    if (otherIds.length + 1 > MAX_GROUP_MEMBERS) {
+      res.status(400).json({
+        success: false,
+        error: `Groups are limited to ${MAX_GROUP_MEMBERS} members`,
+      } as ApiResponse);
+      return;
+    }
+
+    const unknown = await findUnknownUsers(otherIds);
+    if (unknown.length > 0) {
+      res.status(404).json({
+        success: false,
+        error: 'One or more users not found',
+        data: { unknownUserIds: unknown },
+      } as ApiResponse);
+      return;
+    }
+
+    const { group, members } = await Group.transaction(async (trx) => {
+      const group = await Group.query(trx).insertAndFetch({
+        name: name ?? null,
+        created_by: creatorId,
+      });
+
+      const members = await GroupMember.query(trx).insertAndFetch([
+        { group_id: group.id, user_id: creatorId, role: 'admin', added_by: creatorId },
+        ...otherIds.map((userId) => ({
+          group_id: group.id,
+          user_id: userId,
+          role: 'member' as GroupRole,
+          added_by: creatorId,
+        })),
+      ]);
+
+      return { group, members };
+    });
+
+    await GroupService.publishEvent(req.user, {
+      event: 'group_created',
+      groupId: group.id,
+      userIds: members.map((m) => m.user_id),
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        id: group.id,
+        name: group.name ?? null,
+        members: members.map(serializeMember),
+      },
+      message: 'Group created',
+    };
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Error creating group:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' } as ApiResponse);
+  }
+}
+
+/**
+ * GET /api/groups
+ *
+ * List the groups the authenticated user belongs to, with their role.
+ */
+export async function listGroups(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Not authenticated' } as ApiResponse);
+      return;
+    }
+
+    const memberships = await GroupMember.query()
+      .where({ user_id: req.user.userId })
+      .withGraphFetched('group')
+      .orderBy('created_at', 'asc');
+
+    const data = memberships.map((m) => ({
+      id: m.group_id,
+      name: m.group?.name ?? null,
+      role: m.role,
+      joinedAt: m.created_at,
+    }));
+
+    const response: ApiResponse<typeof data> = { success: true, data };
+    res.json(response);
+  } catch (error) {
+    console.error('Error listing groups:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' } as ApiResponse);
+  }
+}
+
+/**
+ * GET /api/groups/:id/members
+ *
+ * List the members of a group.  Only members may see the member list.
+ */
+export async function listMembers(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Not authenticated' } as ApiResponse);
+      return;
+    }
+
+    const membership = await requireMembership(req, res);
+    if (!membership) return;
+
+    const members = await GroupMember.findByGroupId(membership.group_id);
+
+    const data = members.map(serializeMember);
+    const response: ApiResponse<typeof data> = { success: true, data };
+    res.json(response);
+  } catch (error) {
+    console.error('Error listing group members:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' } as ApiResponse);
+  }
+}
+
+/**
+ * POST /api/groups/:id/members
+ *
+ * Add users to a group (admins only).  Existing members are ignored.
+ * Emits a `members_added` group event.
+ *
+ * @body {string[]} userIds - Users to add.
+ */
+export async function addMembers(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Not authenticated' } as ApiResponse);
+      return;
+    }
+
+    const admin = await requireAdmin(req, res);
+    if (!admin) return;
+
+    const ids = validateUserIds(req.body.userIds, 'userIds');
+    if (typeof ids === 'string' || ids.length === 0) {
+      res.status(400).json({
+        success: false,
+        error: typeof ids === 'string' ? ids : 'Missing required field: userIds (array)',
+      } as ApiResponse);
+      return;
+    }
+
+    const groupId = admin.group_id;
+    const current = await GroupMember.findByGroupId(groupId);
+    const currentIds = new Set(current.map((m) => m.user_id));
+    const newIds = ids.filter((id) => !currentIds.has(id));
+
+    if (current.length + newIds.length > MAX_GROUP_MEMBERS) {
+      res.status(400).json({
+        success: false,
+        error: `Groups are limited to ${MAX_GROUP_MEMBERS} members`,
+      } as ApiResponse);
+      return;
+    }
+
+    const unknown = await findUnknownUsers(newIds);
+    if (unknown.length > 0) {
+      res.status(404).json({
+        success: false,
+        error: 'One or more users not found',
+        data: { unknownUserIds: unknown },
+      } as ApiResponse);
+      return;
+    }
+
+    let added: GroupMember[] = [];
+    if (newIds.length > 0) {
+      // A concurrent request may have added some of them since the read
+      added = (await GroupMember.query()
+        .insert(
+          newIds.map((userId) => ({
+            group_id: groupId,
+            user_id: userId,
+            role: 'member' as GroupRole,
+            added_by: req.user!.userId,
+          }))
+        )
+        .onConflict(['group_id', 'user_id'])
+        .ignore()
+        .returning('*')) as unknown as GroupMember[];
+    }
+
+    if (added.length > 0) {
+      await GroupService.publishEvent(req.user, {
+        event: 'members_added',
+        groupId,
+        userIds: added.map((m) => m.user_id),
+      });
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      data: { added: added.map(serializeMember) },
+      message: `${added.length} member(s) added`,
+    };
+    res.status(added.length > 0 ? 201 : 200).json(response);
+  } catch (error) {
+    console.error('Error adding group members:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' } as ApiResponse);
+  }
+}
+
+/**
+ * PATCH /api/groups/:id/members/:userId
+ *
+ * Change a member's role (admins only).  The last admin cannot demote
+ * themselves.  Emits a `role_changed` group event.
+ *
+ * @body {'admin'|'member'} role
+ */
+export async function updateMemberRole(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Not authenticated' } as ApiResponse);
+      return;
+    }
+
+    const admin = await requireAdmin(req, res);
+    if (!admin) return;
+
+    const { userId } = req.params;
+    const { role } = req.body;
+
+    if (typeof role !== 'string' || !GROUP_ROLES.has(role as GroupRole)) {
+      res.status(400).json({
+        success: false,
+        error: `Invalid role. Allowed: ${[...GROUP_ROLES].join(', ')}`,
+      } as ApiResponse);
+      return;
+    }
+
+    const target = UUID_RE.test(userId)
+      ? await GroupMember.findMembership(admin.group_id, userId)
+      : undefined;
+    if (!target) {
+      res.status(404).json({ success: false, error: 'Member not found' } as ApiResponse);
+      return;
+    }
+
+    if (target.role === role) {
+      res.json({ success: true, data: serializeMember(target) } as ApiResponse);
+      return;
+    }
+
+    const updated = await GroupMember.updateRole(admin.group_id, userId, role as GroupRole);
+    if (!updated) {
+      res.status(404).json({ success: false, error: 'Member not found' } as ApiResponse);
+      return;
+    }
+    if (updated === 'last_admin') {
+      res.status(409).json({
+        success: false,
+        error: 'A group must keep at least one admin',
+      } as ApiResponse);
+      return;
+    }
+
+    await GroupService.publishEvent(req.user, {
+      event: 'role_changed',
+      groupId: admin.group_id,
+      userIds: [userId],
+      role: role as GroupRole,
+    });
+
+    res.json({ success: true, data: serializeMember(updated) } as ApiResponse);
+  } catch (error) {
+    console.error('Error updating group member role:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' } as ApiResponse);
+  }
+}
+
+/**
+ * DELETE /api/groups/:id/members/:userId
+ *
+ * Remove a member (admins only), or leave the group when `userId` is the
+ * caller.  The last admin cannot leave while other members remain; the
+ * group is deleted when its last member leaves.
+ * Emits `member_removed` / `member_left` so clients rotate sender keys;
+ * the removed user is notified too.
+ */
+export async function removeMember(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Not authenticated' } as ApiResponse);
+      return;
+    }
+
+    const membership = await requireMembership(req, res);
+    if (!membership) return;
+
+    const { userId } = req.params;
+    const leaving = userId === req.user.userId;
+
+    if (!leaving && !membership.isAdmin) {
+      res.status(403).json({ success: false, error: 'Group admin rights required' } as ApiResponse);
+      return;
+    }
+
+    const target = leaving
+      ? membership
+      : UUID_RE.test(userId)
+        ? await GroupMember.findMembership(membership.group_id, userId)
+        : undefined;
+    if (!target) {
+      res.status(404).json({ success: false, error: 'Member not found' } as ApiResponse);
+      return;
+    }
+
+    const outcome = await GroupMember.remove(membership.group_id, target.user_id);
+    if (!outcome) {
+      res.status(404).json({ success: false, error: 'Member not found' } as ApiResponse);
+      return;
+    }
+    if (outcome === 'last_admin') {
+      res.status(409).json({
+        success: false,
+        error: 'Promote another admin before the last admin leaves',
+      } as ApiResponse);
+      return;
+    }
+
+    // Events are queued against the group, so none can outlive a deleted
+    // one; the leaver's other devices see it gone from the group list.
+    if (outcome === 'removed') {
+      await GroupService.publishEvent(
+        req.user,
+        {
+          event: leaving ? 'member_left' : 'member_removed',
+          groupId: membership.group_id,
+          userIds: [target.user_id],
+        },
+        [target.user_id]
+      );
+    }
+
+    res.json({
+      success: true,
+      message: leaving ? 'Left group' : 'Member removed',
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Error removing group member:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' } as ApiResponse);
+  }
+}
+
+/**
+ * POST /api/groups/:id/send
+ *
+ * Send a single sender-key ciphertext to every device of every member
+ * (including the sender's other devices).  Uses the same persist-first
+ * queue + socket delivery as 1:1 messages.
+ *
+ * @body {string} ciphertext - Base64-encoded sender-key ciphertext.
+ * @body {string} [type]     - Message type (default `sender_key_message`).
+ *
+ * @returns {{ delivered: boolean; messageId: string }}
+ */
+export async function sendGroupMessage(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Not authenticated' } as ApiResponse);
+      return;
+    }
+
+    const { ciphertext, type } = req.body;
+
+    if (typeof ciphertext !== 'string' || ciphertext.trim().length === 0) {
+      res
+        .status(400)
+        .json({ success: false, error: 'Missing required field: ciphertext' } as ApiResponse);
+      return;
+    }
+
+    const ciphertextError = validateCiphertext(ciphertext);
+    if (ciphertextError) {
+      res.status(400).json({ success: false, error: ciphertextError } as ApiResponse);
+      return;
+    }
+
+    const messageType =
+      typeof type === 'string' && type.trim().length > 0 ? type.trim() : 'sender_key_message';
+    if (!ALLOWED_GROUP_MESSAGE_TYPES.has(messageType)) {
+      res.status(400).json({
+        success: false,
+        error: `Invalid message type. Allowed: ${[...ALLOWED_GROUP_MESSAGE_TYPES].join(', ')}`,
+      } as ApiResponse);
+      return;
+    }
+
+    const membership = await requireMembership(req, res);
+    if (!membership) return;
+
+    const { delivered, messageId } = await GroupService.sendGroupMessage(
+      membership.group_id,
+      req.user,
+      Buffer.from(ciphertext, 'base64'),
+      messageType
+    );
+
+    const response: ApiResponse<{ delivered: boolean; messageId: string }> = {
+      success: true,
+      data: { delivered, messageId },
+      message: delivered
+        ? 'Message delivered in real-time — awaiting acknowledgement'
+        : 'Message queued for offline device(s)',
+    };
+    res.status(delivered ? 200 : 201).json(response);
+  } catch (error) {
+    console.error('Error sending group message:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' } as ApiResponse);
+  }
+}
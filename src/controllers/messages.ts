@@ -1,47 +1,68 @@
-import { Response } from 'express';
-import { AuthenticatedRequest } from '../middleware/auth';
-import { QueuedMessage, Device } from '../models';
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { AuthenticatedRequest, JwtPayload } from '../middleware/auth';
+import { QueuedMessage, Device, Conversation, Block, User } from '../models';
 import { ApiResponse } from '../types';
-import { getIO } from '../socket';
+import { config } from '../config';
+import {
+  messageDeliveryService,
+  DeviceEnvelope,
+  DeliveryResult,
+  RetractResult,
+} from '../services/MessageDeliveryService';
+import { AttachmentService } from '../services/AttachmentService';
+import { SealedSenderService, SenderCertificate } from '../services/SealedSenderService';
+import { isValidUnidentifiedAccessKey } from '../utils/crypto';
 
 /** Maximum ciphertext size: 64 KB base64 ≈ ~48 KB raw. */
 const MAX_CIPHERTEXT_LENGTH = 65_536;
 
+/** Maximum number of per-device ciphertexts accepted in a single send. */
+const MAX_RECIPIENT_DEVICES = 32;
+
+/** Maximum number of attachments referenced by a single message. */
+const MAX_ATTACHMENTS = 10;
+
+/** Max allowed length for deviceId (must fit VARCHAR(255)). */
+const MAX_DEVICE_ID_LENGTH = 255;
+
 /** Allowed message types for the Signal protocol. */
 const ALLOWED_MESSAGE_TYPES = new Set(['signal_message', 'pre_key_signal_message', 'key_exchange']);
 
+/** `message_type` stored for every sealed-sender copy. */
+const SEALED_SENDER_MESSAGE_TYPE = 'unidentified_sender';
+
+/** Header carrying the recipient's unidentified access key on sealed sends. */
+const ACCESS_KEY_HEADER = 'unidentified-access-key';
+
+/** Maximum number of senders accepted or deleted in one message-request call. */
+const MAX_REQUEST_SENDERS = 100;
+
+/** Offline cursors carry an `xid8` — an unsigned 64-bit integer. */
+const XID_RE = /^\d{1,20}$/;
+const MAX_XID = '18446744073709551615';
+
 const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 // ---------------------------------------------------------------------------
 // Input validation helpers
 // ---------------------------------------------------------------------------
 
-interface SendMessageInput {
+export interface SendMessageInput {
   recipientId: string;
-  ciphertext: string;
-  type: string;
+  messages: DeviceEnvelope[];
+  attachments: string[];
+  /** Seconds the server keeps the message queued (capped by config). */
+  ttlSeconds?: number;
+  /** Hold the message back until this time. */
+  deliverAt?: Date;
 }
 
 /**
- * Validate and extract the fields from the send-message request body.
- * Returns a typed object on success or an error string on failure.
+ * Validate a base64-encoded ciphertext's size and encoding.
+ * Returns an error string, or `null` if the ciphertext is acceptable.
  */
-function validateSendInput(body: Record<string, unknown>): SendMessageInput | string {
-  const { recipientId, ciphertext, type } = body;
-
-  if (
-    typeof recipientId !== 'string' ||
-    typeof ciphertext !== 'string' ||
-    recipientId.trim().length === 0 ||
-    ciphertext.trim().length === 0
-  ) {
-    return 'Missing required fields: recipientId, ciphertext';
-  }
-
-  if (!UUID_RE.test(recipientId.trim())) {
-    return 'recipientId must be a valid UUID';
-  }
-
+export function validateCiphertext(ciphertext: string): string | null {
   if (ciphertext.length > MAX_CIPHERTEXT_LENGTH) {
     return `ciphertext exceeds maximum length of ${MAX_CIPHERTEXT_LENGTH} characters`;
   }
@@ -55,19 +76,240 @@ function validateSendInput(body: Record<string, unknown>): SendMessageInput | st
     return 'ciphertext must be valid base64';
   }
 
+  return null;
+}
+
+/**
+ * Validate a single per-device envelope.
+ * Returns a typed object on success or an error string on failure.
+ */
+function validateDeviceMessage(entry: unknown): DeviceEnvelope | string {
+  if (typeof entry !== 'object' || entry === null) {
+    return 'Each entry in messages must be an object';
+  }
+
+  const { deviceId, ciphertext, type } = entry as Record<string, unknown>;
+
+  if (
+    typeof deviceId !== 'string' ||
+    typeof ciphertext !== 'string' ||
+    deviceId.trim().length === 0 ||
+    ciphertext.trim().length === 0
+  ) {
+    return 'Each entry in messages requires deviceId and ciphertext';
+  }
+
+  if (deviceId.length > MAX_DEVICE_ID_LENGTH) {
+    return 'Invalid deviceId: exceeds maximum length';
+  }
+
+  const ciphertextError = validateCiphertext(ciphertext);
+  if (ciphertextError) {
+    return ciphertextError;
+  }
+
   const messageType =
     typeof type === 'string' && type.trim().length > 0 ? type.trim() : 'signal_message';
   if (!ALLOWED_MESSAGE_TYPES.has(messageType)) {
     return `Invalid message type. Allowed: ${[...ALLOWED_MESSAGE_TYPES].join(', ')}`;
   }
 
+  return { deviceId, ciphertext, type: messageType };
+}
+
+/**
+ * Validate and extract the fields from a send-message payload (HTTP body
+ * or `send_message` socket event).
+ * Returns a typed object on success or an error string on failure.
+ */
+export function validateSendInput(body: Record<string, unknown>): SendMessageInput | string {
+  const { recipientId, messages, attachments = [], ttl, deliverAt } = body;
+
+  if (
+    typeof recipientId !== 'string' ||
+    recipientId.trim().length === 0 ||
+    !Array.isArray(messages) ||
+    messages.length === 0
+  ) {
+    return 'Missing required fields: recipientId, messages (array)';
+  }
+
+  if (!UUID_RE.test(recipientId.trim())) {
+    return 'recipientId must be a valid UUID';
+  }
+
+  if (messages.length > MAX_RECIPIENT_DEVICES) {
+    return `messages exceeds maximum of ${MAX_RECIPIENT_DEVICES} devices`;
+  }
+
+  if (
+    !Array.isArray(attachments) ||
+    attachments.some((id) => typeof id !== 'string' || !UUID_RE.test(id))
+  ) {
+    return 'attachments must be an array of attachment IDs';
+  }
+
+  if (attachments.length > MAX_ATTACHMENTS) {
+    return `attachments exceeds maximum of ${MAX_ATTACHMENTS} attachments`;
+  }
+
+  if (ttl !== undefined && ttl !== null) {
+    if (typeof ttl !== 'number' || !Number.isInteger(ttl) || ttl < 1) {
+      return 'ttl must be a positive integer number of seconds';
+    }
+  }
+
+  let deliverAtDate: Date | undefined;
+  if (deliverAt !== undefined && deliverAt !== null) {
+    const parsed = typeof deliverAt === 'string' ? Date.parse(deliverAt) : NaN;
+    if (Number.isNaN(parsed)) {
+      return 'deliverAt must be an ISO 8601 timestamp';
+    }
+    if (parsed > Date.now() + config.delivery.maxScheduleAheadSeconds * 1000) {
+      return `deliverAt cannot be more than ${config.delivery.maxScheduleAheadSeconds} seconds ahead`;
+    }
+    deliverAtDate = new Date(parsed);
+  }
+
+  const validated: DeviceEnvelope[] = [];
+  const seenDevices = new Set<string>();
+
+  for (const entry of messages) {
+    const result = validateDeviceMessage(entry);
+    if (typeof result === 'string') {
+      return result;
+    }
+    if (seenDevices.has(result.deviceId)) {
+      return `Duplicate deviceId in messages: ${result.deviceId}`;
+    }
+    seenDevices.add(result.deviceId);
+    validated.push(result);
+  }
+
   return {
     recipientId: recipientId.trim(),
-    ciphertext,
-    type: messageType,
+    messages: validated,
+    attachments: [...new Set(attachments as string[])],
+    ttlSeconds: typeof ttl === 'number' ? ttl : undefined,
+    deliverAt: deliverAtDate,
   };
 }
 
+// ---------------------------------------------------------------------------
+// Shared send path
+// ---------------------------------------------------------------------------
+
+export type SendMessageOutcome =
+  | { ok: true; result: DeliveryResult }
+  | {
+      ok: false;
+      status: number;
+      error: string;
+      data?: { missingDevices: string[]; extraDevices: string[] };
+    };
+
+type SendMessageFailure = Extract<SendMessageOutcome, { ok: false }>;
+
+/**
+ * The sender must address exactly the recipient's current devices.
+ * Returns a 404 / 409 failure, or `null` if the device lists match.
+ */
+async function checkRecipientDevices(
+  recipientId: string,
+  messages: DeviceEnvelope[]
+): Promise<SendMessageFailure | null> {
+  // Verify recipient exists
+  const recipientDevices = await Device.findByUserId(recipientId);
+  if (recipientDevices.length === 0) {
+    // No devices registered → user either doesn't exist or has never logged in
+    return { ok: false, status: 404, error: 'Recipient not found or has no active device' };
+  }
+
+  const registered = new Set(recipientDevices.map((d) => d.device_id));
+  const addressed = new Set(messages.map((m) => m.deviceId));
+  const missingDevices = [...registered].filter((id) => !addressed.has(id));
+  const extraDevices = [...addressed].filter((id) => !registered.has(id));
+
+  if (missingDevices.length > 0 || extraDevices.length > 0) {
+    return {
+      ok: false,
+      status: 409,
+      error: 'Recipient device list mismatch — refresh sessions and retry',
+      data: { missingDevices, extraDevices },
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Check the recipient and hand a validated message to the delivery service.
+ * Used by both `POST /api/messages/send` and the `send_message` socket event,
+ * so failures are returned as an HTTP-style status + error instead of being
+ * written to a response.
+ *
+ * The set of `deviceId`s must match the recipient's registered devices
+ * exactly; otherwise a 409 lists the missing and extra devices so the
+ * client can refresh its sessions and retry.
+ *
+ * If the recipient has blocked the sender, the message is dropped before
+ * any other check and — per `config.blocks.messageResponse` — either
+ * reported as queued or rejected with a 403.
+ *
+ * A message to a recipient who has not accepted the sender yet is held as
+ * a message request: queued, but neither pushed nor visible in the
+ * recipient's regular queue until they accept.  Sending is itself an
+ * acceptance, so replying to a request releases it.
+ */
+export async function relayMessage(
+  sender: JwtPayload,
+  input: SendMessageInput
+): Promise<SendMessageOutcome> {
+  const { recipientId, messages, attachments: attachmentIds, ttlSeconds, deliverAt } = input;
+
+  // Prevent sending messages to yourself
+  if (recipientId === sender.userId) {
+    return { ok: false, status: 400, error: 'Cannot send a message to yourself' };
+  }
+
+  if (await Block.isBlocked(recipientId, sender.userId)) {
+    if (config.blocks.messageResponse === 'reject') {
+      return { ok: false, status: 403, error: 'Recipient is not accepting your messages' };
+    }
+    return { ok: true, result: { delivered: false, messageId: uuidv4(), scheduled: false } };
+  }
+
+  const mismatch = await checkRecipientDevices(recipientId, messages);
+  if (mismatch) {
+    return mismatch;
+  }
+
+  const attachments = await AttachmentService.resolveForSend(sender.userId, attachmentIds);
+  if (typeof attachments === 'string') {
+    return { ok: false, status: 400, error: attachments };
+  }
+
+  const isRequest = !(await Conversation.isAccepted(recipientId, sender.userId));
+  const result = await messageDeliveryService.send(
+    sender.userId,
+    sender.deviceId,
+    recipientId,
+    messages,
+    { attachments, ttlSeconds, deliverAt, isRequest }
+  );
+
+  // Writing back accepts the recipient's own pending requests to the sender
+  const accepted = await Conversation.accept(sender.userId, [recipientId]);
+  if (accepted.length > 0) {
+    await messageDeliveryService.releaseRequests(sender.userId, accepted);
+  }
+
+  // Remembered so contacts can be told about identity-key changes
+  await Conversation.touch(sender.userId, recipientId);
+
+  return { ok: true, result };
+}
+
 // ---------------------------------------------------------------------------
 // Controllers
 // ---------------------------------------------------------------------------
@@ -75,16 +317,32 @@ function validateSendInput(body: Record<string, unknown>): SendMessageInput | st
 /**
  * POST /api/messages/send
  *
- * Send an encrypted message to a recipient.
+ * Send an encrypted message to every device of a recipient.  The sender
+ * encrypts once per recipient device and the server fans each ciphertext
+ * out to its device:
+ *
+ * - Every copy is first persisted to the `message_queue` table.
+ * - If the device is **online** → emit `new_message` (with the message ID)
+ *   to its device room; the row is removed once the device sends a
+ *   `message_ack` socket event.
+ * - If the device is **offline** → the row waits for `/api/messages/offline`.
  *
- * - If the recipient is **online** → emit `new_message` via Socket.io.
- * - If the recipient is **offline** → persist to the `message_queue` table.
+ * Connected clients can use the `send_message` socket event instead.
  *
  * @body {string} recipientId - UUID of the recipient user.
- * @body {string} ciphertext  - Base64-encoded Signal ciphertext.
- * @body {string} [type]      - Message type (default `signal_message`).
+ * @body {Array<{ deviceId: string; ciphertext: string; type?: string }>} messages
+ *   One base64-encoded Signal ciphertext per recipient device
+ *   (type defaults to `signal_message`).
+ * @body {string[]} [attachments] - Attachment IDs from `/api/files/upload-url`
+ *   (uploaded by the sender); deleted once every recipient device has the message.
+ * @body {number} [ttl] - Seconds to keep the message for offline devices; capped at
+ *   (and defaulting to) `MESSAGE_MAX_TTL_SECONDS`.  Expired copies are never delivered.
+ * @body {string} [deliverAt] - ISO 8601 time to deliver at (scheduled message).  The
+ *   message stays hidden from the recipient until then; the TTL counts from this time.
  *
- * @returns {{ delivered: boolean; messageId?: string }}
+ * @returns {{ delivered: boolean; messageId: string; scheduled: boolean }}
+ *
+ * @error 409 - Device list mismatch; `data` lists `missingDevices` / `extraDevices`.
  */
 export async function sendMessage(req: AuthenticatedRequest, res: Response): Promise<void> {
   try {
@@ -93,87 +351,230 @@ export async function sendMessage(req: AuthenticatedRequest, res: Response): Pro
       return;
     }
 
-    const result = validateSendInput(req.body);
-    if (typeof result === 'string') {
-      res.status(400).json({ success: false, error: result } as ApiResponse);
+    const input = validateSendInput(req.body);
+    if (typeof input === 'string') {
+      res.status(400).json({ success: false, error: input } as ApiResponse);
       return;
     }
 
-    const { recipientId, ciphertext, type } = result;
-    const senderId = req.user.userId;
+    const outcome = await relayMessage(req.user, input);
+    if (!outcome.ok) {
+      const response: ApiResponse<typeof outcome.data> = {
+        success: false,
+        error: outcome.error,
+        data: outcome.data,
+      };
+      res.status(outcome.status).json(response);
+      return;
+    }
 
-    // Prevent sending messages to yourself
-    if (recipientId === senderId) {
-      res
-        .status(400)
-        .json({ success: false, error: 'Cannot send a message to yourself' } as ApiResponse);
+    const { delivered, messageId, scheduled } = outcome.result;
+    const response: ApiResponse<DeliveryResult> = {
+      success: true,
+      data: { delivered, messageId, scheduled },
+      message: scheduled
+        ? 'Message scheduled for delivery'
+        : delivered
+          ? 'Message delivered in real-time — awaiting acknowledgement'
+          : 'Message queued for offline device(s)',
+    };
+    res.status(delivered ? 200 : 201).json(response);
+  } catch (error) {
+    console.error('Error sending message:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' } as ApiResponse);
+  }
+}
+
+/**
+ * POST /api/sealed/messages
+ *
+ * Sealed-sender (unidentified) delivery.  Unauthenticated: the sender's
+ * identity and sender certificate travel inside the ciphertexts, and the
+ * server stores the copies with no `sender_id`.  The caller proves it may
+ * message the recipient by presenting the recipient's unidentified access
+ * key in the `Unidentified-Access-Key` header.
+ *
+ * @header {string} Unidentified-Access-Key - Base64 16-byte access key.
+ * @body {string} recipientId - UUID of the recipient user.
+ * @body {Array<{ deviceId: string; ciphertext: string }>} messages
+ *   One sealed envelope per recipient device (stored as `unidentified_sender`).
+ * @body {number} [ttl] - Seconds to keep the message queued (capped by config).
+ *
+ * @returns {{ delivered: boolean; messageId: string }}
+ *
+ * @error 401 - Missing or wrong access key (or the recipient accepts no sealed messages).
+ * @error 409 - Device list mismatch; `data` lists `missingDevices` / `extraDevices`.
+ */
+export async function sendSealedMessage(req: Request, res: Response): Promise<void> {
+  try {
+    const input = validateSendInput(req.body);
+    if (typeof input === 'string') {
+      res.status(400).json({ success: false, error: input } as ApiResponse);
       return;
     }
 
-    // Verify recipient exists
-    const recipientDevices = await Device.findByUserId(recipientId);
-    if (recipientDevices.length === 0) {
-      // No devices registered → user either doesn't exist or has never logged in
-      res.status(404).json({
+    if (input.attachments.length > 0) {
+      res.status(400).json({
         success: false,
-        error: 'Recipient not found or has no active device',
+        error: 'Attachments cannot be referenced by sealed-sender messages',
       } as ApiResponse);
       return;
     }
 
-    // Check if recipient has any socket connected to their userId room (O(1))
-    const io = getIO();
-    const recipientRoom = io.sockets.adapter.rooms.get(recipientId);
+    // The sender could never list or cancel it without a sender ID
+    if (input.deliverAt) {
+      res.status(400).json({
+        success: false,
+        error: 'Sealed-sender messages cannot be scheduled',
+      } as ApiResponse);
+      return;
+    }
 
-    if (recipientRoom && recipientRoom.size > 0) {
-      // --- ONLINE: deliver in real-time via the userId room ---
-      io.to(recipientId).emit('new_message', {
-        senderId,
-        ciphertext,
-        type,
-        timestamp: new Date().toISOString(),
-      });
+    const accessKey = req.header(ACCESS_KEY_HEADER);
+    const authorized =
+      typeof accessKey === 'string' &&
+      isValidUnidentifiedAccessKey(accessKey) &&
+      (await SealedSenderService.checkAccessKey(input.recipientId, accessKey));
 
-      const response: ApiResponse<{ delivered: boolean }> = {
-        success: true,
-        data: { delivered: true },
-        message: 'Message delivered in real-time',
-      };
-      res.json(response);
-    } else {
-      // --- OFFLINE: persist to the message queue ---
-      const payloadBuffer = Buffer.from(ciphertext, 'base64');
-
-      const queued = await QueuedMessage.query().insertAndFetch({
-        recipient_id: recipientId,
-        sender_id: senderId,
-        encrypted_payload: payloadBuffer,
-        message_type: type,
-      });
+    if (!authorized) {
+      res
+        .status(401)
+        .json({ success: false, error: 'Invalid unidentified access key' } as ApiResponse);
+      return;
+    }
 
-      const response: ApiResponse<{ delivered: boolean; messageId: string }> = {
-        success: true,
-        data: { delivered: false, messageId: queued.id },
-        message: 'Recipient offline — message queued',
+    const mismatch = await checkRecipientDevices(input.recipientId, input.messages);
+    if (mismatch) {
+      const response: ApiResponse<typeof mismatch.data> = {
+        success: false,
+        error: mismatch.error,
+        data: mismatch.data,
       };
-      res.status(201).json(response);
+      res.status(mismatch.status).json(response);
+      return;
     }
+
+    const { delivered, messageId } = await messageDeliveryService.send(
+      null,
+      null,
+      input.recipientId,
+      input.messages.map((m) => ({ ...m, type: SEALED_SENDER_MESSAGE_TYPE })),
+      { ttlSeconds: input.ttlSeconds }
+    );
+
+    const response: ApiResponse<{ delivered: boolean; messageId: string }> = {
+      success: true,
+      data: { delivered, messageId },
+      message: delivered
+        ? 'Message delivered in real-time — awaiting acknowledgement'
+        : 'Message queued for offline device(s)',
+    };
+    res.status(delivered ? 200 : 201).json(response);
   } catch (error) {
-    console.error('Error sending message:', error);
+    console.error('Error sending sealed message:', error);
     res.status(500).json({ success: false, error: 'Internal server error' } as ApiResponse);
   }
 }
 
+/**
+ * GET /api/messages/sender-certificate
+ *
+ * Issue a short-lived sender certificate for the authenticated device, to
+ * be embedded in sealed-sender envelopes.  Recipients verify it against
+ * `serverPublicKey`.
+ *
+ * @returns {{ certificate: string; signature: string; serverPublicKey: string }}
+ */
+export async function getSenderCertificate(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Not authenticated' } as ApiResponse);
+      return;
+    }
+
+    const certificate = await SealedSenderService.issueCertificate(
+      req.user.userId,
+      req.user.deviceId
+    );
+    if (!certificate) {
+      res.status(404).json({ success: false, error: 'Device not found' } as ApiResponse);
+      return;
+    }
+
+    const response: ApiResponse<SenderCertificate> = {
+      success: true,
+      data: certificate,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Error issuing sender certificate:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' } as ApiResponse);
+  }
+}
+
+/** Position of the last message of a page, encoded as an opaque cursor. */
+interface OfflineCursor {
+  xid: string;
+  id: string;
+}
+
+function encodeCursor(message: QueuedMessage): string {
+  const cursor: OfflineCursor = {
+    xid: String(message.delivery_xid),
+    id: message.id,
+  };
+  return Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+}
+
+/** Decode a client-supplied cursor; returns `null` if it is malformed. */
+function decodeCursor(value: string): OfflineCursor | null {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    const { xid, id } = (parsed ?? {}) as Partial<OfflineCursor>;
+    if (
+      typeof xid !== 'string' ||
+      !XID_RE.test(xid) ||
+      (xid.length === MAX_XID.length && xid > MAX_XID) ||
+      typeof id !== 'string' ||
+      !UUID_RE.test(id)
+    ) {
+      return null;
+    }
+    return { xid, id };
+  } catch {
+    return null;
+  }
+}
+
 /**
  * GET /api/messages/offline
  *
- * Fetch and atomically delete all queued messages for the authenticated user.
- * The client should call this on connection to retrieve anything that arrived
- * while it was offline.
+ * Page through the queued messages of the authenticated device.  The client
+ * should call this on connection to retrieve anything that arrived while it
+ * was offline.
  *
- * @query {number} [limit=100] - Max messages to retrieve in one call.
+ * By default messages are left in place (at-least-once): the client stores
+ * each page, then acknowledges it with `DELETE /api/messages/batch` (or the
+ * `message_ack` socket event), and follows `cursor` while `hasMore` is true.
+ * Messages may therefore be seen more than once — deduplicate by `id`.
+ * Pages follow commit order, so a cursor never skips a message that is
+ * committed after it was handed out.  An unrecognised cursor is rejected
+ * with a 400; fetch again without one.
  *
- * @returns {Array<{ id, senderId, ciphertext, type, createdAt }>}
+ * With `destructive=true` the page is deleted as it is read (the legacy
+ * behaviour); anything lost in transit is then gone for good.
+ *
+ * @query {number}  [limit=100]   - Max messages to retrieve in one call.
+ * @query {string}  [cursor]      - Opaque cursor from the previous page.
+ * @query {boolean} [destructive] - `true` to fetch-and-delete (no cursor).
+ *
+ * Expired messages are never returned, even before the expiry sweep runs.
+ *
+ * @returns {{ messages: Array<{ id, senderId, senderDeviceId, groupId, ciphertext, type, attachments, createdAt, expiresAt }>;
+ *             cursor: string | null; hasMore: boolean }}
  */
 export async function fetchOfflineMessages(
   req: AuthenticatedRequest,
@@ -185,23 +586,64 @@ export async function fetchOfflineMessages(
       return;
     }
 
+    const { userId, deviceId } = req.user;
     const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 100, 1), 100);
+    const destructive = req.query.destructive === 'true';
+
+    let messages: QueuedMessage[];
+    let hasMore: boolean;
+    let cursor: string | null = null;
+
+    if (destructive) {
+      messages = await QueuedMessage.fetchAndDelete(userId, deviceId, limit);
+      hasMore = await QueuedMessage.hasPendingForDevice(userId, deviceId);
+
+      // Fetched copies are gone — attachments may now be unreferenced
+      if (messages.length > 0) {
+        await AttachmentService.release([...new Set(messages.map((msg) => msg.message_id))]);
+      }
+    } else {
+      let after: OfflineCursor | undefined;
+      if (typeof req.query.cursor === 'string' && req.query.cursor.length > 0) {
+        const decoded = decodeCursor(req.query.cursor);
+        if (!decoded) {
+          res.status(400).json({ success: false, error: 'Invalid cursor' } as ApiResponse);
+          return;
+        }
+        after = decoded;
+      }
 
-    const messages = await QueuedMessage.fetchAndDelete(req.user.userId, limit);
+      const page = await QueuedMessage.findPageByDevice(userId, deviceId, limit, after);
+      messages = page.messages;
+      hasMore = page.hasMore;
+      if (messages.length > 0) {
+        cursor = encodeCursor(messages[messages.length - 1]);
+      } else if (after) {
+        // Nothing new yet — hand the same position back
+        cursor = req.query.cursor as string;
+      }
+    }
 
-    const data = messages.map((msg) => ({
-      id: msg.id,
-      senderId: msg.sender_id,
-      ciphertext: msg.encrypted_payload.toString('base64'),
-      type: msg.message_type,
-      fileReference: msg.file_reference || null,
-      createdAt: msg.created_at,
-    }));
+    const data = {
+      messages: messages.map((msg) => ({
+        id: msg.message_id,
+        senderId: msg.sender_id,
+        senderDeviceId: msg.sender_device_id || null,
+        groupId: msg.group_id || null,
+        ciphertext: msg.encrypted_payload.toString('base64'),
+        type: msg.message_type,
+        attachments: msg.attachmentIds,
+        createdAt: msg.created_at,
+        expiresAt: msg.expires_at,
+      })),
+      cursor,
+      hasMore,
+    };
 
     const response: ApiResponse<typeof data> = {
       success: true,
       data,
-      message: `${data.length} message(s) retrieved`,
+      message: `${data.messages.length} message(s) retrieved`,
     };
     res.json(response);
   } catch (error) {
@@ -210,10 +652,345 @@ export async function fetchOfflineMessages(
   }
 }
 
+/**
+ * DELETE /api/messages/:id/unsend
+ *
+ * Retract a message the authenticated user sent, as long as copies of it
+ * are still queued.  The queued copies and the message's attachments are
+ * deleted, and the recipients' online devices receive a `message_retracted`
+ * event so they can drop a copy they may already hold.
+ *
+ * @returns {{ retracted: number; delivered: boolean }} `delivered` is `true`
+ *   when at least one copy had already reached its device (pushed, fetched
+ *   or acknowledged).
+ *
+ * @error 400 - Malformed message ID.
+ * @error 404 - No queued copies left (unknown ID, not the sender, or
+ *   already acknowledged by every device).
+ */
+export async function unsendMessage(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Not authenticated' } as ApiResponse);
+      return;
+    }
+
+    const messageId = req.params.id;
+    if (!UUID_RE.test(messageId)) {
+      res.status(400).json({ success: false, error: 'Invalid message ID' } as ApiResponse);
+      return;
+    }
+
+    const result = await messageDeliveryService.retract(req.user.userId, messageId);
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        error: 'Message not found or already delivered',
+      } as ApiResponse);
+      return;
+    }
+
+    const response: ApiResponse<RetractResult> = {
+      success: true,
+      data: result,
+      message: `${result.retracted} queued cop${result.retracted === 1 ? 'y' : 'ies'} retracted`,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Error unsending message:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' } as ApiResponse);
+  }
+}
+
+/**
+ * GET /api/messages/scheduled
+ *
+ * List the authenticated user's scheduled messages that have not been
+ * released yet, soonest first.  One entry per message, with the devices
+ * its copies are addressed to.
+ *
+ * @returns {Array<{ id, recipientId, recipientDeviceIds, groupId, attachments, deliverAt, expiresAt, createdAt }>}
+ */
+export async function listScheduledMessages(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Not authenticated' } as ApiResponse);
+      return;
+    }
+
+    const rows = await QueuedMessage.findScheduledBySender(req.user.userId);
+
+    const byMessage = new Map<
+      string,
+      {
+        id: string;
+        recipientId: string;
+        recipientDeviceIds: string[];
+        groupId: string | null;
+        attachments: string[];
+        deliverAt: Date | null | undefined;
+        expiresAt: Date;
+        createdAt: Date;
+      }
+    >();
+    for (const row of rows) {
+      const entry = byMessage.get(row.message_id);
+      if (entry) {
+        entry.recipientDeviceIds.push(row.recipient_device_id);
+        continue;
+      }
+      byMessage.set(row.message_id, {
+        id: row.message_id,
+        recipientId: row.recipient_id,
+        recipientDeviceIds: [row.recipient_device_id],
+        groupId: row.group_id || null,
+        attachments: row.attachmentIds,
+        deliverAt: row.deliver_at,
+        expiresAt: row.expires_at,
+        createdAt: row.created_at,
+      });
+    }
+
+    const data = [...byMessage.values()];
+    const response: ApiResponse<typeof data> = {
+      success: true,
+      data,
+      message: `${data.length} scheduled message(s)`,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Error listing scheduled messages:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' } as ApiResponse);
+  }
+}
+
+/**
+ * DELETE /api/messages/scheduled/:id
+ *
+ * Cancel one of the authenticated user's scheduled messages before it is
+ * released.  Its queued copies and attachments are deleted; the recipient
+ * never sees it.
+ *
+ * @error 400 - Malformed message ID.
+ * @error 404 - No pending scheduled message with that ID (unknown, not the
+ *   sender, or already released).
+ */
+export async function cancelScheduledMessage(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Not authenticated' } as ApiResponse);
+      return;
+    }
+
+    const messageId = req.params.id;
+    if (!UUID_RE.test(messageId)) {
+      res.status(400).json({ success: false, error: 'Invalid message ID' } as ApiResponse);
+      return;
+    }
+
+    const cancelled = await messageDeliveryService.cancelScheduled(req.user.userId, messageId);
+    if (!cancelled) {
+      res.status(404).json({
+        success: false,
+        error: 'Scheduled message not found or already delivered',
+      } as ApiResponse);
+      return;
+    }
+
+    res.json({ success: true, message: 'Scheduled message cancelled' } as ApiResponse);
+  } catch (error) {
+    console.error('Error cancelling scheduled message:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' } as ApiResponse);
+  }
+}
+
+/**
+ * Parse the `senderIds` body field of the message-request routes.
+ * Returns the de-duplicated IDs, or an error string.
+ */
+function parseRequestSenderIds(senderIds: unknown): string[] | string {
+  if (!Array.isArray(senderIds) || senderIds.length === 0) {
+    return 'Missing required field: senderIds (array)';
+  }
+  if (senderIds.length > MAX_REQUEST_SENDERS) {
+    return `senderIds exceeds maximum of ${MAX_REQUEST_SENDERS} entries`;
+  }
+  if (senderIds.some((id) => typeof id !== 'string' || !UUID_RE.test(id))) {
+    return 'All senderIds must be valid UUIDs';
+  }
+  return [...new Set(senderIds as string[])];
+}
+
+/**
+ * GET /api/messages/requests
+ *
+ * List the pending message requests addressed to the authenticated
+ * device: direct messages and system events such as missed calls from
+ * users the authenticated user has not accepted yet.
+ * Requests are grouped by sender, oldest first, and are not returned by
+ * `/api/messages/offline` until accepted.
+ *
+ * @returns {Array<{ senderId, senderUsername, messages: Array<{ id, senderDeviceId, ciphertext, type, attachments, createdAt, expiresAt }> }>}
+ */
+export async function listMessageRequests(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Not authenticated' } as ApiResponse);
+      return;
+    }
+
+    const rows = await QueuedMessage.findRequestsForDevice(req.user.userId, req.user.deviceId);
+
+    const senderIds = [...new Set(rows.map((row) => row.sender_id as string))];
+    const senders =
+      senderIds.length > 0
+        ? await User.query().whereIn('id', senderIds).select('id', 'username')
+        : [];
+    const usernames = new Map(senders.map((user) => [user.id, user.username]));
+
+    const bySender = new Map<
+      string,
+      {
+        senderId: string;
+        senderUsername: string | null;
+        messages: Array<{
+          id: string;
+          senderDeviceId: string | null;
+          ciphertext: string;
+          type: string;
+          attachments: string[];
+          createdAt: Date;
+          expiresAt: Date;
+        }>;
+      }
+    >();
+    for (const row of rows) {
+      const senderId = row.sender_id as string;
+      let entry = bySender.get(senderId);
+      if (!entry) {
+        entry = { senderId, senderUsername: usernames.get(senderId) ?? null, messages: [] };
+        bySender.set(senderId, entry);
+      }
+      entry.messages.push({
+        id: row.message_id,
+        senderDeviceId: row.sender_device_id || null,
+        ciphertext: row.encrypted_payload.toString('base64'),
+        type: row.message_type,
+        attachments: row.attachmentIds,
+        createdAt: row.created_at,
+        expiresAt: row.expires_at,
+      });
+    }
+
+    const data = [...bySender.values()];
+    const response: ApiResponse<typeof data> = {
+      success: true,
+      data,
+      message: `${rows.length} message request(s) from ${data.length} sender(s)`,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Error listing message requests:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' } as ApiResponse);
+  }
+}
+
+/**
+ * POST /api/messages/requests/accept
+ *
+ * Accept messages from the given senders.  Their pending requests become
+ * regular queued messages — pushed to every online device of the
+ * authenticated user and returned by `/api/messages/offline` — and later
+ * messages from them are delivered normally.
+ *
+ * @body {string[]} senderIds - User IDs to accept (at most 100).
+ *
+ * @returns {{ accepted: string[]; released: number }} `accepted` lists the
+ *   senders that were not accepted until now; `released` counts device copies.
+ */
+export async function acceptMessageRequests(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Not authenticated' } as ApiResponse);
+      return;
+    }
+
+    const senderIds = parseRequestSenderIds(req.body.senderIds);
+    if (typeof senderIds === 'string') {
+      res.status(400).json({ success: false, error: senderIds } as ApiResponse);
+      return;
+    }
+
+    const accepted = await Conversation.accept(req.user.userId, senderIds);
+    const released = await messageDeliveryService.releaseRequests(req.user.userId, senderIds);
+
+    const response: ApiResponse<{ accepted: string[]; released: number }> = {
+      success: true,
+      data: { accepted, released },
+      message: `${accepted.length} sender(s) accepted`,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Error accepting message requests:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' } as ApiResponse);
+  }
+}
+
+/**
+ * DELETE /api/messages/requests
+ *
+ * Delete every pending request from the given senders, on all of the
+ * authenticated user's devices, along with their attachments.  The senders
+ * stay unaccepted, so anything they send later is again a request.
+ *
+ * @body {string[]} senderIds - User IDs whose requests to delete (at most 100).
+ *
+ * @returns {{ deleted: number }} Number of messages deleted.
+ */
+export async function deleteMessageRequests(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Not authenticated' } as ApiResponse);
+      return;
+    }
+
+    const senderIds = parseRequestSenderIds(req.body.senderIds);
+    if (typeof senderIds === 'string') {
+      res.status(400).json({ success: false, error: senderIds } as ApiResponse);
+      return;
+    }
+
+    const deleted = await messageDeliveryService.deleteRequests(req.user.userId, senderIds);
+
+    const response: ApiResponse<{ deleted: number }> = {
+      success: true,
+      data: { deleted },
+      message: `${deleted} message request(s) deleted`,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Error deleting message requests:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' } as ApiResponse);
+  }
+}
+
 /**
  * DELETE /api/messages/batch
  *
  * Delete specific queued messages by their IDs (client-driven acknowledgement).
+ * Only the copies addressed to the authenticated device are removed.
  *
  * @body {string[]} messageIds - Array of message UUIDs to delete.
  */
@@ -242,12 +1019,16 @@ export async function deleteMessages(req: AuthenticatedRequest, res: Response):
       return;
     }
 
-    // Only allow the authenticated user to delete their own messages
+    // Only allow the authenticated device to delete its own messages
     const deleted = await QueuedMessage.query()
-      .whereIn('id', messageIds)
-      .andWhere({ recipient_id: req.user.userId })
+      .whereIn('message_id', messageIds)
+      .andWhere({ recipient_id: req.user.userId, recipient_device_id: req.user.deviceId })
       .delete();
 
+    if (deleted > 0) {
+      await AttachmentService.release(messageIds);
+    }
+
     const response: ApiResponse<{ deleted: number }> = {
       success: true,
       data: { deleted },
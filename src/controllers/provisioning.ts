@@ -0,0 +1,73 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { ApiResponse } from '../types';
+import { deliverProvisioningMessage } from '../socket';
+import { validateCiphertext } from './messages';
+
+/** Provisioning addresses are 32 random bytes, base64url-encoded (43 chars). */
+const PROVISIONING_ADDRESS_RE = /^[A-Za-z0-9_-]{43}$/;
+
+/**
+ * PUT /api/provisioning/:address
+ *
+ * Relay an encrypted provisioning message from the authenticated (already
+ * linked) device to a new device waiting on the `/provisioning` socket
+ * namespace.  The body is encrypted to the ephemeral key the new device
+ * showed in its QR code and typically carries the identity key pair,
+ * username and registration material it needs to complete
+ * `/api/auth/challenge` and `/api/auth/verify`.  The server only relays it.
+ *
+ * @body {string} body - Base64-encoded provisioning ciphertext (max 64 KB).
+ *
+ * @error 400 - Malformed address or body.
+ * @error 401 - Not authenticated.
+ * @error 404 - No device is waiting on that address (unknown, expired or used).
+ * @error 500 - Internal server error.
+ */
+export async function sendProvisioningMessage(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Not authenticated' } as ApiResponse);
+      return;
+    }
+
+    const { address } = req.params;
+    if (!PROVISIONING_ADDRESS_RE.test(address)) {
+      res
+        .status(400)
+        .json({ success: false, error: 'Invalid provisioning address' } as ApiResponse);
+      return;
+    }
+
+    const { body } = req.body;
+    if (typeof body !== 'string' || body.length === 0) {
+      res
+        .status(400)
+        .json({ success: false, error: 'Missing required field: body' } as ApiResponse);
+      return;
+    }
+
+    const bodyError = validateCiphertext(body);
+    if (bodyError) {
+      res.status(400).json({ success: false, error: `Invalid body: ${bodyError}` } as ApiResponse);
+      return;
+    }
+
+    const delivered = await deliverProvisioningMessage(address, body);
+    if (!delivered) {
+      res.status(404).json({
+        success: false,
+        error: 'Provisioning address not found or expired',
+      } as ApiResponse);
+      return;
+    }
+
+    res.json({ success: true, message: 'Provisioning message delivered' } as ApiResponse);
+  } catch (error) {
+    console.error('Error sending provisioning message:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' } as ApiResponse);
+  }
+}
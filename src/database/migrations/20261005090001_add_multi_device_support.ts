@@ -0,0 +1,93 @@
+import type { Knex } from 'knex';
+
+/**
+ * Scope pre-keys and queued messages to an individual device so that a user
+ * can be logged in on several devices at once.
+ *
+ * Existing rows are backfilled from the (previously unique) device of each
+ * user; rows that cannot be attributed to a device are unusable and dropped.
+ */
+export async function up(knex: Knex): Promise<void> {
+  for (const tableName of ['signed_pre_keys', 'one_time_pre_keys']) {
+    await knex.schema.alterTable(tableName, (table) => {
+      table.string('device_id', 255).nullable();
+    });
+
+    await knex.raw(
+      `UPDATE ?? AS k SET device_id = d.device_id FROM devices d WHERE d.user_id = k.user_id`,
+      [tableName]
+    );
+    await knex(tableName).whereNull('device_id').delete();
+
+    await knex.schema.alterTable(tableName, (table) => {
+      table.string('device_id', 255).notNullable().alter();
+      table.dropUnique(['user_id', 'key_id']);
+      table.unique(['user_id', 'device_id', 'key_id']);
+      table.index(['user_id', 'device_id']);
+      table
+        .foreign(['user_id', 'device_id'])
+        .references(['user_id', 'device_id'])
+        .inTable('devices')
+        .onDelete('CASCADE');
+    });
+  }
+
+  await knex.schema.alterTable('message_queue', (table) => {
+    table.string('recipient_device_id', 255).nullable();
+    table.string('sender_device_id', 255).nullable();
+    table.uuid('message_id').nullable();
+  });
+
+  await knex.raw(`
+    UPDATE message_queue AS m
+    SET recipient_device_id = d.device_id
+    FROM devices d
+    WHERE d.user_id = m.recipient_id
+  `);
+  await knex('message_queue').whereNull('recipient_device_id').delete();
+  await knex('message_queue').update({ message_id: knex.ref('id') });
+
+  await knex.schema.alterTable('message_queue', (table) => {
+    table.string('recipient_device_id', 255).notNullable().alter();
+    table.uuid('message_id').notNullable().defaultTo(knex.raw('uuid_generate_v4()')).alter();
+    table.index(['recipient_id', 'recipient_device_id', 'created_at']);
+    table.index('message_id');
+    table
+      .foreign(['recipient_id', 'recipient_device_id'])
+      .references(['user_id', 'device_id'])
+      .inTable('devices')
+      .onDelete('CASCADE');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('message_queue', (table) => {
+    table.dropForeign(['recipient_id', 'recipient_device_id']);
+    table.dropIndex(['recipient_id', 'recipient_device_id', 'created_at']);
+    table.dropIndex('message_id');
+    table.dropColumn('recipient_device_id');
+    table.dropColumn('sender_device_id');
+    table.dropColumn('message_id');
+  });
+
+  for (const tableName of ['signed_pre_keys', 'one_time_pre_keys']) {
+    // Only one device per user survives the rollback, so keep its keys
+    await knex.raw(
+      `DELETE FROM ?? AS k
+       WHERE EXISTS (
+         SELECT 1 FROM ?? AS o
+         WHERE o.user_id = k.user_id AND o.key_id = k.key_id AND o.id <> k.id
+           AND (o.created_at, o.id) > (k.created_at, k.id)
+       )`,
+      [tableName, tableName]
+    );
+
+    await knex.schema.alterTable(tableName, (table) => {
+      table.dropForeign(['user_id', 'device_id']);
+      table.dropIndex(['user_id', 'device_id']);
+      table.dropUnique(['user_id', 'device_id', 'key_id']);
+      table.unique(['user_id', 'key_id']);
+      table.dropColumn('device_id');
+    });
+  }
+}
@@ -0,0 +1,19 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('message_queue', (table) => {
+    // Set when the message is pushed over a socket; cleared only by deletion on ack
+    table.timestamp('last_emitted_at', { useTz: true }).nullable();
+    table.integer('delivery_attempts').notNullable().defaultTo(0);
+
+    table.index('last_emitted_at');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('message_queue', (table) => {
+    table.dropIndex('last_emitted_at');
+    table.dropColumn('last_emitted_at');
+    table.dropColumn('delivery_attempts');
+  });
+}
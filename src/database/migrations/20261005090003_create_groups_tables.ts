@@ -0,0 +1,37 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('groups', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    // Opaque to the server — clients are expected to store an encrypted name
+    table.text('name');
+    table.uuid('created_by').references('id').inTable('users').onDelete('SET NULL');
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+    table.timestamp('updated_at', { useTz: true }).defaultTo(knex.fn.now());
+  });
+
+  await knex.schema.createTable('group_members', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.uuid('group_id').notNullable().references('id').inTable('groups').onDelete('CASCADE');
+    table.uuid('user_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.string('role', 20).notNullable().defaultTo('member');
+    table.uuid('added_by').references('id').inTable('users').onDelete('SET NULL');
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.unique(['group_id', 'user_id']);
+    table.index('user_id');
+  });
+
+  await knex.schema.alterTable('message_queue', (table) => {
+    table.uuid('group_id').nullable().references('id').inTable('groups').onDelete('CASCADE');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('message_queue', (table) => {
+    table.dropForeign(['group_id']);
+    table.dropColumn('group_id');
+  });
+  await knex.schema.dropTableIfExists('group_members');
+  await knex.schema.dropTableIfExists('groups');
+}
@@ -0,0 +1,14 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('users', (table) => {
+    // Granted by operators directly in the database; never settable via the API
+    table.boolean('is_admin').notNullable().defaultTo(false);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('users', (table) => {
+    table.dropColumn('is_admin');
+  });
+}
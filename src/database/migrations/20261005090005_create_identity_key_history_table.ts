@@ -0,0 +1,34 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('identity_key_history', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.uuid('user_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.text('old_public_key').notNullable();
+    table.text('new_public_key').notNullable();
+    // Signature by the old identity key over the new key (base64 string)
+    table.text('signature').notNullable();
+    table.string('rotated_by_device_id', 255);
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.index(['user_id', 'created_at']);
+  });
+
+  // One row per direction of every 1:1 exchange, so the server can tell
+  // who a user has recently been talking to (e.g. for identity-change alerts)
+  await knex.schema.createTable('conversations', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.uuid('user_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.uuid('peer_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.timestamp('last_message_at', { useTz: true }).defaultTo(knex.fn.now());
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.unique(['user_id', 'peer_id']);
+    table.index(['user_id', 'last_message_at']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('conversations');
+  await knex.schema.dropTableIfExists('identity_key_history');
+}
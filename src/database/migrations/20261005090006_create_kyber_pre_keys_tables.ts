@@ -0,0 +1,52 @@
+import type { Knex } from 'knex';
+
+/**
+ * Post-quantum (PQXDH) Kyber-1024 pre-keys.
+ *
+ * - `kyber_pre_keys` holds signed one-time Kyber pre-keys, consumed one per
+ *   bundle fetch like `one_time_pre_keys`.
+ * - `kyber_last_resort_pre_keys` holds a single signed Kyber pre-key per
+ *   device that is handed out (and never consumed) once the one-time pool
+ *   is empty.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('kyber_pre_keys', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.uuid('user_id').notNullable();
+    table.string('device_id', 255).notNullable();
+    table.integer('key_id').notNullable();
+    table.text('public_key').notNullable();
+    table.text('signature').notNullable();
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.unique(['user_id', 'device_id', 'key_id']);
+    table.index(['user_id', 'device_id']);
+    table
+      .foreign(['user_id', 'device_id'])
+      .references(['user_id', 'device_id'])
+      .inTable('devices')
+      .onDelete('CASCADE');
+  });
+
+  await knex.schema.createTable('kyber_last_resort_pre_keys', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.uuid('user_id').notNullable();
+    table.string('device_id', 255).notNullable();
+    table.integer('key_id').notNullable();
+    table.text('public_key').notNullable();
+    table.text('signature').notNullable();
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.unique(['user_id', 'device_id']);
+    table
+      .foreign(['user_id', 'device_id'])
+      .references(['user_id', 'device_id'])
+      .inTable('devices')
+      .onDelete('CASCADE');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('kyber_last_resort_pre_keys');
+  await knex.schema.dropTableIfExists('kyber_pre_keys');
+}
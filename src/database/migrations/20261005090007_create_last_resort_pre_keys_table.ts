@@ -0,0 +1,27 @@
+import type { Knex } from 'knex';
+
+/**
+ * Curve25519 last-resort pre-key: a single key per device that is handed
+ * out (and never consumed) once the device's one-time pre-key pool is empty.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('last_resort_pre_keys', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.uuid('user_id').notNullable();
+    table.string('device_id', 255).notNullable();
+    table.integer('key_id').notNullable();
+    table.text('public_key').notNullable();
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.unique(['user_id', 'device_id']);
+    table
+      .foreign(['user_id', 'device_id'])
+      .references(['user_id', 'device_id'])
+      .inTable('devices')
+      .onDelete('CASCADE');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('last_resort_pre_keys');
+}
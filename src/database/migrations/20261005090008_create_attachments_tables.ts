@@ -0,0 +1,40 @@
+import type { Knex } from 'knex';
+
+/**
+ * Track uploaded objects so they can be garbage-collected.
+ *
+ * - `attachments` records each object's uploader and how many queued
+ *   message copies (one per recipient device) still reference it.
+ * - `message_attachments` links a message (`message_queue.message_id`,
+ *   shared by every device copy) to the attachments it carries.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('attachments', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.string('object_name', 512).notNullable().unique();
+    table.uuid('owner_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.integer('ref_count').notNullable().defaultTo(0);
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.index('owner_id');
+    table.index(['ref_count', 'created_at']);
+  });
+
+  await knex.schema.createTable('message_attachments', (table) => {
+    table.uuid('message_id').notNullable();
+    table
+      .uuid('attachment_id')
+      .notNullable()
+      .references('id')
+      .inTable('attachments')
+      .onDelete('CASCADE');
+
+    table.primary(['message_id', 'attachment_id']);
+    table.index('attachment_id');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('message_attachments');
+  await knex.schema.dropTableIfExists('attachments');
+}
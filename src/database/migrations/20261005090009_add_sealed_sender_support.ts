@@ -0,0 +1,32 @@
+import type { Knex } from 'knex';
+
+/**
+ * Sealed-sender (unidentified) delivery:
+ *
+ * - `users.unidentified_access_key` — key a sender must present to deliver
+ *   to the user without authenticating (derived client-side from the
+ *   recipient's profile key and shared only with contacts).
+ * - `message_queue.sender_id` becomes nullable — sealed messages are stored
+ *   without a sender; it lives inside the encrypted envelope instead.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('users', (table) => {
+    table.text('unidentified_access_key').nullable();
+  });
+
+  await knex.schema.alterTable('message_queue', (table) => {
+    table.uuid('sender_id').nullable().alter();
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex('message_queue').whereNull('sender_id').delete();
+
+  await knex.schema.alterTable('message_queue', (table) => {
+    table.uuid('sender_id').notNullable().alter();
+  });
+
+  await knex.schema.alterTable('users', (table) => {
+    table.dropColumn('unidentified_access_key');
+  });
+}
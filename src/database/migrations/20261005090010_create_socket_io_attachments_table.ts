@@ -0,0 +1,18 @@
+import type { Knex } from 'knex';
+
+/**
+ * Table used by `@socket.io/postgres-adapter` for cross-instance packets
+ * that exceed the 8000-byte NOTIFY payload limit (or contain binary data).
+ * The adapter prunes old rows itself.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('socket_io_attachments', (table) => {
+    table.bigIncrements('id');
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+    table.binary('payload');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('socket_io_attachments');
+}
@@ -0,0 +1,19 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('message_queue', (table) => {
+    // Scheduled messages stay hidden from the recipient until this time; cleared once released
+    table.timestamp('deliver_at', { useTz: true }).nullable();
+
+    table.index('deliver_at');
+    table.index(['sender_id', 'deliver_at']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('message_queue', (table) => {
+    table.dropIndex(['sender_id', 'deliver_at']);
+    table.dropIndex('deliver_at');
+    table.dropColumn('deliver_at');
+  });
+}
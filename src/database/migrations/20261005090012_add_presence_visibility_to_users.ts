@@ -0,0 +1,21 @@
+import type { Knex } from 'knex';
+
+/**
+ * Who may see a user's presence (online / offline / last seen):
+ * `everyone`, `contacts` (users they have exchanged messages with) or
+ * `nobody`.
+ */
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('users', (table) => {
+    table
+      .enu('presence_visibility', ['everyone', 'contacts', 'nobody'])
+      .notNullable()
+      .defaultTo('contacts');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('users', (table) => {
+    table.dropColumn('presence_visibility');
+  });
+}
@@ -0,0 +1,34 @@
+import type { Knex } from 'knex';
+
+/**
+ * One row per 1:1 call attempt, driving the call-signaling state machine
+ * (`ringing` → `active` → `ended`).  Only routing metadata is stored — the
+ * SDP offers/answers and ICE candidates are end-to-end encrypted and only
+ * relayed.  Kept in the database so every server instance sees the same
+ * state when the Socket.io Postgres adapter is enabled.  Ended calls are
+ * purged by the `CleanupService` shortly afterwards, so no call log is kept.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('calls', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.uuid('caller_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.string('caller_device_id', 255).notNullable();
+    table.uuid('callee_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    // Set once one of the callee's devices answers
+    table.string('callee_device_id', 255).nullable();
+    table.enu('call_type', ['audio', 'video']).notNullable();
+    table.enu('state', ['ringing', 'active', 'ended']).notNullable().defaultTo('ringing');
+    table.string('end_reason', 32).nullable();
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+    table.timestamp('answered_at', { useTz: true }).nullable();
+    table.timestamp('ended_at', { useTz: true }).nullable();
+
+    table.index(['state', 'created_at']);
+    table.index(['caller_id', 'state']);
+    table.index(['callee_id', 'state']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('calls');
+}
@@ -0,0 +1,36 @@
+import type { Knex } from 'knex';
+
+/**
+ * Message requests — first contact from strangers is held back:
+ *
+ * - `conversations.accepted_at` — when `user_id` accepted messages from
+ *   `peer_id` (by messaging them first, or by accepting their request).
+ *   Conversations that already exist are treated as accepted.
+ * - `message_queue.is_request` — copies held as a message request; never
+ *   pushed or returned by the offline fetch until the request is accepted.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('conversations', (table) => {
+    table.timestamp('accepted_at', { useTz: true }).nullable();
+  });
+  await knex('conversations').update({ accepted_at: knex.ref('created_at') });
+
+  await knex.schema.alterTable('message_queue', (table) => {
+    table.boolean('is_request').notNullable().defaultTo(false);
+
+    table.index(['recipient_id', 'is_request']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex('message_queue').where({ is_request: true }).delete();
+
+  await knex.schema.alterTable('message_queue', (table) => {
+    table.dropIndex(['recipient_id', 'is_request']);
+    table.dropColumn('is_request');
+  });
+
+  await knex.schema.alterTable('conversations', (table) => {
+    table.dropColumn('accepted_at');
+  });
+}
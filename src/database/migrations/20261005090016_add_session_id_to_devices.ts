@@ -0,0 +1,19 @@
+import type { Knex } from 'knex';
+
+/**
+ * Per-device login session.  `session_id` is replaced on every login of the
+ * device and carried in its JWTs as the `sessionId` claim, so a new login
+ * invalidates every token issued to the device before it.  Tokens issued
+ * before this migration carry no `sessionId` and must log in again.
+ */
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('devices', (table) => {
+    table.uuid('session_id').notNullable().defaultTo(knex.raw('uuid_generate_v4()'));
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('devices', (table) => {
+    table.dropColumn('session_id');
+  });
+}
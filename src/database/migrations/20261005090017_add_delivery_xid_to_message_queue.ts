@@ -0,0 +1,26 @@
+import type { Knex } from 'knex';
+
+/**
+ * `delivery_xid` — ID of the transaction that made the row visible to its
+ * recipient (the insert, or the release of a scheduled message or message
+ * request).  The offline fetch pages on it and only returns rows whose
+ * transaction is older than every transaction still running, so a row that
+ * commits late can never fall behind a cursor that was already handed out.
+ */
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('message_queue', (table) => {
+    table
+      .specificType('delivery_xid', 'xid8')
+      .notNullable()
+      .defaultTo(knex.raw('pg_current_xact_id()'));
+
+    table.index(['recipient_id', 'recipient_device_id', 'delivery_xid', 'id']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('message_queue', (table) => {
+    table.dropIndex(['recipient_id', 'recipient_device_id', 'delivery_xid', 'id']);
+    table.dropColumn('delivery_xid');
+  });
+}
@@ -0,0 +1,23 @@
+import type { Knex } from 'knex';
+
+/**
+ * Lets a sender learn whether a message reached anyone before unsending it:
+ *
+ * - `copy_count` — number of device copies the message was queued as, so
+ *   copies already acknowledged (and deleted) can be counted.
+ * - `fetched_at` — when the recipient device first read the copy through
+ *   the non-destructive offline fetch.
+ */
+export async function up(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('message_queue', (table) => {
+    table.integer('copy_count').notNullable().defaultTo(1);
+    table.timestamp('fetched_at', { useTz: true }).nullable();
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  return knex.schema.alterTable('message_queue', (table) => {
+    table.dropColumn('fetched_at');
+    table.dropColumn('copy_count');
+  });
+}
@@ -11,9 +11,18 @@ import keyRoutes from './routes/keys';
 import messageRoutes from './routes/messages';
 import fileRoutes from './routes/files';
 import authRoutes from './routes/auth';
+import deviceRoutes from './routes/devices';
+import provisioningRoutes from './routes/provisioning';
+import callRoutes from './routes/calls';
+import blockRoutes from './routes/blocks';
+import groupRoutes from './routes/groups';
+import sealedRoutes from './routes/sealed';
 import { authenticate } from './middleware/auth';
 import { initSocket } from './socket';
 import { cleanupService } from './services/CleanupService';
+import { messageDeliveryService } from './services/MessageDeliveryService';
+import { messageSchedulerService } from './services/MessageSchedulerService';
+import { callService } from './services/CallService';
 
 const app: Application = express();
 const httpServer = createServer(app);
@@ -54,7 +63,13 @@ app.use('/api/users', userRoutes);
 app.use('/api/auth', authRoutes);
 app.use('/api/keys', apiLimiter, authenticate, keyRoutes);
 app.use('/api/messages', apiLimiter, authenticate, messageRoutes);
+app.use('/api/sealed', apiLimiter, sealedRoutes);
 app.use('/api/files', fileLimiter, authenticate, fileRoutes);
+app.use('/api/devices', apiLimiter, authenticate, deviceRoutes);
+app.use('/api/provisioning', apiLimiter, authenticate, provisioningRoutes);
+app.use('/api/calls', apiLimiter, authenticate, callRoutes);
+app.use('/api/blocks', apiLimiter, authenticate, blockRoutes);
+app.use('/api/groups', apiLimiter, authenticate, groupRoutes);
 
 app.use((req: Request, res: Response) => {
   res.status(404).json({
@@ -87,6 +102,15 @@ async function startServer() {
     // Start scheduled maintenance jobs
     cleanupService.start();
 
+    // Re-emit messages whose delivery was never acknowledged
+    messageDeliveryService.start();
+
+    // Release scheduled messages once their deliverAt time has come
+    messageSchedulerService.start();
+
+    // End calls that ring past the ring timeout
+    callService.start();
+
     httpServer.listen(config.server.port, () => {
       console.log(`
 ╔════════════════════════════════════════════════════════════╗
@@ -105,11 +129,27 @@ async function startServer() {
 ║   • POST /api/keys/*          - Key management             ║
 ║   • POST /api/messages/send   - Send message               ║
 ║   • GET  /api/messages/offline - Fetch offline messages    ║
+║   • GET  /api/messages/scheduled - Pending scheduled msgs  ║
+║   • GET  /api/messages/requests - Message requests         ║
+║   • POST /api/sealed/messages - Sealed-sender send         ║
+║   • POST /api/groups/*        - Group messaging            ║
 ║   • POST /api/files/*         - File storage               ║
+║   • GET  /api/devices         - List / manage sessions     ║
+║   • PUT  /api/devices/push-token - Update push token       ║
+║   • PUT  /api/provisioning/:address - Link a device        ║
+║   • GET  /api/calls/turn-credentials - TURN credentials    ║
+║   • GET  /api/blocks          - Manage blocked users       ║
 ║                                                            ║
 ║   WebSocket:                                               ║
 ║   • Socket.io (JWT auth via handshake)                     ║
-║   • Events: new_message                                    ║
+║   • Events: new_message, message_ack, send_message         ║
+║             session_revoked, refresh_token                 ║
+║             message_retracted, presence_subscribe,         ║
+║             presence, typing_start, typing_stop            ║
+║             call_offer, call_answer, ice_candidate,        ║
+║             call_hangup                                    ║
+║   • Namespace /provisioning: provisioning_address,         ║
+║             provisioning_message                           ║
 ║                                                            ║
 ╚════════════════════════════════════════════════════════════╝
       `);
@@ -126,10 +166,16 @@ startServer();
 function gracefulShutdown(signal: string): void {
   console.log(`\n${signal} received — shutting down gracefully…`);
   cleanupService.stop();
+  messageDeliveryService.stop();
+  messageSchedulerService.stop();
+  callService.stop();
 
   // Dynamically import to avoid circular issues if stopHeartbeat isn't needed at top level
-  import('./socket').then(({ stopHeartbeat }) => {
+  import('./socket').then(({ stopHeartbeat, closeSocketAdapter }) => {
     stopHeartbeat();
+    closeSocketAdapter().catch((err) => {
+      console.error('Failed to close Socket.io adapter pool:', err);
+    });
   });
 
   httpServer.close(() => {
@@ -7,6 +7,8 @@ import { ApiResponse } from '../types';
 export interface JwtPayload {
   userId: string;
   deviceId: string;
+  /** The device's `session_id` at login; stale once the device logs in again. */
+  sessionId: string;
 }
 
 export interface AuthenticatedRequest extends Request {
@@ -41,7 +43,8 @@ function verifyAuthHeader(header: unknown): JwtPayload | null {
       typeof decoded !== 'object' ||
       decoded === null ||
       typeof (decoded as JwtPayload).userId !== 'string' ||
-      typeof (decoded as JwtPayload).deviceId !== 'string'
+      typeof (decoded as JwtPayload).deviceId !== 'string' ||
+      typeof (decoded as JwtPayload).sessionId !== 'string'
     ) {
       return null;
     }
@@ -58,8 +61,9 @@ function verifyAuthHeader(header: unknown): JwtPayload | null {
  * 1. Extracts the JWT from the Authorization header (Bearer token).
  * 2. Verifies the token signature and expiry.
  * 3. Checks that the device referenced in the token still exists in the
- *    devices table — if another device logged in and wiped the old entry,
- *    this returns 401 ("remote logout" enforcement).
+ *    devices table — if the device logged out or was removed, this returns
+ *    401 ("remote logout" enforcement).  Tokens from an earlier login of the
+ *    device (a stale `sessionId`) are rejected the same way.
  */
 export async function authenticate(
   req: AuthenticatedRequest,
@@ -78,10 +82,11 @@ export async function authenticate(
       return;
     }
 
-    // Verify the device still exists (single-session enforcement)
+    // Verify the device still exists (remote-logout enforcement) and that the
+    // token belongs to its current login session
     const device = await Device.findByUserIdAndDeviceId(payload.userId, payload.deviceId);
 
-    if (!device) {
+    if (!device || device.session_id !== payload.sessionId) {
       const response: ApiResponse = {
         success: false,
         error: 'Authentication failed',
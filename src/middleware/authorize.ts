@@ -0,0 +1,69 @@
+import { Response, NextFunction } from 'express';
+import { User } from '../models';
+import { ApiResponse } from '../types';
+import { AuthenticatedRequest } from './auth';
+
+/** Picks the user ID a request targets (route param, body field, …). */
+export type TargetUserSelector = (req: AuthenticatedRequest) => unknown;
+
+interface OwnershipOptions {
+  /** Let users flagged `is_admin` act on other users' resources. */
+  allowAdmin?: boolean;
+}
+
+/** Target the user ID in a route parameter, e.g. `/:userId`. */
+export function fromParam(name: string): TargetUserSelector {
+  return (req) => req.params[name];
+}
+
+/**
+ * Target the user ID in a body field.  The field is optional — when absent,
+ * handlers act on `req.user.userId`.
+ */
+export function fromBody(name: string): TargetUserSelector {
+  return (req) => (req.body as Record<string, unknown> | undefined)?.[name];
+}
+
+/**
+ * Authorization middleware: the targeted user must be the authenticated
+ * user (or, with `allowAdmin`, the caller must be an admin).  Mismatches
+ * are rejected with 403.  Must run after `authenticate`.
+ */
+export function requireOwnership(select: TargetUserSelector, options: OwnershipOptions = {}) {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Not authenticated',
+        };
+        res.status(401).json(response);
+        return;
+      }
+
+      const target = select(req);
+      if (target === undefined || target === req.user.userId) {
+        next();
+        return;
+      }
+
+      if (options.allowAdmin && (await User.isAdmin(req.user.userId))) {
+        next();
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: false,
+        error: 'Forbidden',
+      };
+      res.status(403).json(response);
+    } catch (error) {
+      console.error('Authorization middleware error:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Internal server error',
+      };
+      res.status(500).json(response);
+    }
+  };
+}
@@ -0,0 +1,131 @@
+import { Model, RelationMappingsThunk } from 'objection';
+import { BaseModel } from './BaseModel';
+
+/** Table linking messages (by shared `message_id`) to their attachments. */
+const MESSAGE_ATTACHMENTS = 'message_attachments';
+
+export class Attachment extends BaseModel {
+  static tableName = 'attachments';
+
+  declare id: string;
+  object_name!: string;
+  owner_id!: string;
+  ref_count!: number;
+  declare created_at: Date;
+
+  // Relations
+  owner?: import('./User').User;
+
+  static get relationMappings(): RelationMappingsThunk {
+    return () => {
+      const { User } = require('./User');
+
+      return {
+        owner: {
+          relation: Model.BelongsToOneRelation,
+          modelClass: User,
+          join: {
+            from: 'attachments.owner_id',
+            to: 'users.id',
+          },
+        },
+      };
+    };
+  }
+
+  // Static query methods
+  static async findByObjectName(objectName: string): Promise<Attachment | undefined> {
+    return this.query().findOne({ object_name: objectName });
+  }
+
+  /**
+   * Record a freshly issued upload slot.  The random attachment ID doubles
+   * as the object name, so names are unguessable and carry no user input.
+   */
+  static async register(ownerId: string, attachmentId: string): Promise<Attachment> {
+    return this.query().insertAndFetch({
+      id: attachmentId,
+      owner_id: ownerId,
+      object_name: attachmentId,
+    });
+  }
+
+  static async findOwned(ownerId: string, attachmentIds: string[]): Promise<Attachment[]> {
+    if (attachmentIds.length === 0) return [];
+    return this.query().where({ owner_id: ownerId }).whereIn('id', attachmentIds);
+  }
+
+  /** Whether the user has a queued copy of a message referencing the attachment. */
+  static async isRecipient(attachmentId: string, userId: string): Promise<boolean> {
+    const row = await this.knex()(MESSAGE_ATTACHMENTS)
+      .join('message_queue', 'message_queue.message_id', `${MESSAGE_ATTACHMENTS}.message_id`)
+      .where(`${MESSAGE_ATTACHMENTS}.attachment_id`, attachmentId)
+      .where('message_queue.recipient_id', userId)
+      .first('message_queue.id');
+    return !!row;
+  }
+
+  static async findByMessageIds(messageIds: string[]): Promise<Attachment[]> {
+    if (messageIds.length === 0) return [];
+    return this.query()
+      .distinct('attachments.*')
+      .join(MESSAGE_ATTACHMENTS, 'attachments.id', `${MESSAGE_ATTACHMENTS}.attachment_id`)
+      .whereIn(`${MESSAGE_ATTACHMENTS}.message_id`, messageIds);
+  }
+
+  /**
+   * Link attachments to a message and count one reference per queued
+   * device copy.
+   */
+  static async link(messageId: string, attachmentIds: string[], copies: number): Promise<void> {
+    if (attachmentIds.length === 0) return;
+
+    await this.transaction(async (trx) => {
+      await trx(MESSAGE_ATTACHMENTS)
+        .insert(attachmentIds.map((id) => ({ message_id: messageId, attachment_id: id })))
+        .onConflict(['message_id', 'attachment_id'])
+        .ignore();
+
+      await this.query(trx).whereIn('id', attachmentIds).increment('ref_count', copies);
+    });
+  }
+
+  /**
+   * Recompute `ref_count` from the queued message copies that still exist.
+   * Picks up copies removed by any path (ack, fetch, expiry sweep).
+   * When `ids` is omitted every currently referenced attachment is recounted.
+   */
+  static async recount(ids?: string[]): Promise<number> {
+    const query = this.query().patch({
+      ref_count: this.raw(
+        `(SELECT COUNT(*) FROM message_queue q
+          JOIN ${MESSAGE_ATTACHMENTS} ma ON ma.message_id = q.message_id
+          WHERE ma.attachment_id = attachments.id)`
+      ),
+    });
+
+    if (ids) {
+      if (ids.length === 0) return 0;
+      query.whereIn('id', ids);
+    } else {
+      query.where('ref_count', '>', 0);
+    }
+
+    return query;
+  }
+
+  /**
+   * Unreferenced attachments.  With `createdBefore`, only those uploaded
+   * before that time (so fresh, not-yet-sent uploads are left alone).
+   */
+  static async findUnreferenced(
+    ids?: string[],
+    createdBefore?: Date,
+    limit: number = 500
+  ): Promise<Attachment[]> {
+    const query = this.query().where('ref_count', 0).limit(limit);
+    if (ids) query.whereIn('id', ids);
+    if (createdBefore) query.where('created_at', '<', createdBefore);
+    return query;
+  }
+}
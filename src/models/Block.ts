@@ -0,0 +1,76 @@
+import { Model, RelationMappingsThunk } from 'objection';
+import { BaseModel } from './BaseModel';
+
+export class Block extends BaseModel {
+  static tableName = 'blocks';
+
+  declare id: string;
+  blocker_id!: string;
+  blocked_id!: string;
+  declare created_at: Date;
+
+  // Relations
+  blocker?: import('./User').User;
+  blocked?: import('./User').User;
+
+  static get relationMappings(): RelationMappingsThunk {
+    return () => {
+      const { User } = require('./User');
+
+      return {
+        blocker: {
+          relation: Model.BelongsToOneRelation,
+          modelClass: User,
+          join: {
+            from: 'blocks.blocker_id',
+            to: 'users.id',
+          },
+        },
+        blocked: {
+          relation: Model.BelongsToOneRelation,
+          modelClass: User,
+          join: {
+            from: 'blocks.blocked_id',
+            to: 'users.id',
+          },
+        },
+      };
+    };
+  }
+
+  // Static query methods
+
+  /** Whether `blockerId` has blocked `blockedId`. */
+  static async isBlocked(blockerId: string, blockedId: string): Promise<boolean> {
+    const row = await this.query()
+      .findOne({ blocker_id: blockerId, blocked_id: blockedId })
+      .select('id');
+    return !!row;
+  }
+
+  /** IDs of the given users who have blocked `blockedId`. */
+  static async findBlockersOf(userIds: string[], blockedId: string): Promise<string[]> {
+    if (userIds.length === 0) return [];
+    const rows = await this.query()
+      .whereIn('blocker_id', userIds)
+      .where({ blocked_id: blockedId })
+      .select('blocker_id');
+    return rows.map((r) => r.blocker_id);
+  }
+
+  static async findByBlocker(blockerId: string): Promise<Block[]> {
+    return this.query().where({ blocker_id: blockerId }).orderBy('created_at', 'desc');
+  }
+
+  /** Block a user; blocking someone already blocked is a no-op. */
+  static async block(blockerId: string, blockedId: string): Promise<void> {
+    await this.query()
+      .insert({ blocker_id: blockerId, blocked_id: blockedId })
+      .onConflict(['blocker_id', 'blocked_id'])
+      .ignore();
+  }
+
+  static async unblock(blockerId: string, blockedId: string): Promise<number> {
+    return this.query().where({ blocker_id: blockerId, blocked_id: blockedId }).delete();
+  }
+}
@@ -0,0 +1,140 @@
+import { Model, RelationMappingsThunk, TransactionOrKnex } from 'objection';
+import { BaseModel } from './BaseModel';
+import { CallState, CallType } from '../types';
+
+export class Call extends BaseModel {
+  static tableName = 'calls';
+
+  declare id: string;
+  caller_id!: string;
+  caller_device_id!: string;
+  callee_id!: string;
+  callee_device_id?: string | null;
+  call_type!: CallType;
+  state!: CallState;
+  end_reason?: string | null;
+  declare created_at: Date;
+  answered_at?: Date | null;
+  ended_at?: Date | null;
+
+  // Relations
+  caller?: import('./User').User;
+  callee?: import('./User').User;
+
+  static get relationMappings(): RelationMappingsThunk {
+    return () => {
+      const { User } = require('./User');
+
+      return {
+        caller: {
+          relation: Model.BelongsToOneRelation,
+          modelClass: User,
+          join: {
+            from: 'calls.caller_id',
+            to: 'users.id',
+          },
+        },
+        callee: {
+          relation: Model.BelongsToOneRelation,
+          modelClass: User,
+          join: {
+            from: 'calls.callee_id',
+            to: 'users.id',
+          },
+        },
+      };
+    };
+  }
+
+  // Static query methods
+
+  /** The ringing or active call the user takes part in, if any. */
+  static async findOngoingForUser(
+    userId: string,
+    trx?: TransactionOrKnex
+  ): Promise<Call | undefined> {
+    return this.query(trx)
+      .whereIn('state', ['ringing', 'active'])
+      .where((q) => q.where({ caller_id: userId }).orWhere({ callee_id: userId }))
+      .first();
+  }
+
+  /**
+   * Record a new call.  Both users are locked for the transaction (advisory
+   * locks, taken in a fixed order), so concurrent offers involving either of
+   * them see each other's calls.  `decide` is told whether the callee is
+   * already in a call and returns the reason to record the call as ended
+   * with, or `null` to let it ring.  Returns `undefined` if the caller is
+   * already in a call.
+   */
+  static async place(
+    call: Pick<Call, 'caller_id' | 'caller_device_id' | 'callee_id' | 'call_type'>,
+    decide: (calleeBusy: boolean) => string | null
+  ): Promise<Call | undefined> {
+    return this.transaction(async (trx) => {
+      for (const userId of [call.caller_id, call.callee_id].sort()) {
+        await trx.raw('SELECT pg_advisory_xact_lock(hashtext(?))', [`calls:${userId}`]);
+      }
+
+      if (await this.findOngoingForUser(call.caller_id, trx)) {
+        return undefined;
+      }
+
+      const endReason = decide(!!(await this.findOngoingForUser(call.callee_id, trx)));
+      return this.query(trx).insertAndFetch({
+        ...call,
+        state: endReason ? 'ended' : 'ringing',
+        end_reason: endReason,
+        ended_at: endReason ? new Date() : null,
+      });
+    });
+  }
+
+  /**
+   * Move a ringing call to `active`, answered by `deviceId`.  Returns the
+   * updated call, or `undefined` if it was no longer ringing (so exactly
+   * one callee device can win).
+   */
+  static async answer(id: string, deviceId: string): Promise<Call | undefined> {
+    const [call] = (await this.query()
+      .where({ id, state: 'ringing' })
+      .patch({ state: 'active', callee_device_id: deviceId, answered_at: new Date() })
+      .returning('*')) as unknown as Call[];
+    return call;
+  }
+
+  /**
+   * End a call that is still ringing or active.  Returns the ended call,
+   * or `undefined` if it had already ended.
+   */
+  static async end(id: string, reason: string): Promise<Call | undefined> {
+    const [call] = (await this.query()
+      .where({ id })
+      .whereIn('state', ['ringing', 'active'])
+      .patch({ state: 'ended', end_reason: reason, ended_at: new Date() })
+      .returning('*')) as unknown as Call[];
+    return call;
+  }
+
+  /** End and return every call that has been ringing for longer than `timeoutMs`. */
+  static async endTimedOut(timeoutMs: number, reason: string): Promise<Call[]> {
+    const ended = await this.query()
+      .where({ state: 'ringing' })
+      .where('created_at', '<', new Date(Date.now() - timeoutMs))
+      .patch({ state: 'ended', end_reason: reason, ended_at: new Date() })
+      .returning('*');
+    return ended as unknown as Call[];
+  }
+
+  /** Delete calls that ended more than `retentionMs` ago.  Returns the number deleted. */
+  static async deleteEndedBefore(retentionMs: number): Promise<number> {
+    return this.query()
+      .where({ state: 'ended' })
+      .where('ended_at', '<', new Date(Date.now() - retentionMs))
+      .delete();
+  }
+
+  static async findActive(): Promise<Call[]> {
+    return this.query().where({ state: 'active' });
+  }
+}
@@ -0,0 +1,108 @@
+import { Model, RelationMappingsThunk } from 'objection';
+import { BaseModel } from './BaseModel';
+
+export class Conversation extends BaseModel {
+  static tableName = 'conversations';
+
+  declare id: string;
+  user_id!: string;
+  peer_id!: string;
+  last_message_at!: Date;
+  /** When `user_id` accepted messages from `peer_id`; `null` while it is a message request. */
+  accepted_at?: Date | null;
+  declare created_at: Date;
+
+  // Relations
+  user?: import('./User').User;
+  peer?: import('./User').User;
+
+  static get relationMappings(): RelationMappingsThunk {
+    return () => {
+      const { User } = require('./User');
+
+      return {
+        user: {
+          relation: Model.BelongsToOneRelation,
+          modelClass: User,
+          join: {
+            from: 'conversations.user_id',
+            to: 'users.id',
+          },
+        },
+        peer: {
+          relation: Model.BelongsToOneRelation,
+          modelClass: User,
+          join: {
+            from: 'conversations.peer_id',
+            to: 'users.id',
+          },
+        },
+      };
+    };
+  }
+
+  // Static query methods
+
+  /**
+   * Record a 1:1 message from `userId` to `peerId` (both directions).  A new
+   * conversation counts as accepted by the sender only; an existing one
+   * keeps its acceptance state.
+   */
+  static async touch(userId: string, peerId: string): Promise<void> {
+    const now = new Date();
+    await this.query()
+      .insert([
+        { user_id: userId, peer_id: peerId, last_message_at: now, accepted_at: now },
+        { user_id: peerId, peer_id: userId, last_message_at: now, accepted_at: null },
+      ])
+      .onConflict(['user_id', 'peer_id'])
+      .merge(['last_message_at']);
+  }
+
+  /** Whether `userId` has accepted messages from `peerId`. */
+  static async isAccepted(userId: string, peerId: string): Promise<boolean> {
+    const row = await this.query()
+      .findOne({ user_id: userId, peer_id: peerId })
+      .whereNotNull('accepted_at')
+      .select('id');
+    return !!row;
+  }
+
+  /**
+   * Accept messages from the given peers, creating the conversation if
+   * there is none yet (e.g. a caller whose only contact was a missed call).
+   * Unknown user IDs are ignored.  Returns the peers that were not accepted until now.
+   */
+  static async accept(userId: string, peerIds: string[]): Promise<string[]> {
+    if (peerIds.length === 0) return [];
+    const result = await this.knex().raw(
+      `INSERT INTO conversations (user_id, peer_id, accepted_at)
+       SELECT ?, users.id, now() FROM users WHERE users.id IN (${peerIds.map(() => '?').join(', ')})
+       ON CONFLICT (user_id, peer_id) DO UPDATE SET accepted_at = EXCLUDED.accepted_at
+         WHERE conversations.accepted_at IS NULL
+       RETURNING peer_id`,
+      [userId, ...peerIds]
+    );
+    return (result.rows as Array<{ peer_id: string }>).map((row) => row.peer_id);
+  }
+
+  /** IDs of the given users who have accepted a conversation with `peerId`. */
+  static async findUsersWithPeer(userIds: string[], peerId: string): Promise<string[]> {
+    if (userIds.length === 0) return [];
+    const rows = await this.query()
+      .whereIn('user_id', userIds)
+      .where({ peer_id: peerId })
+      .whereNotNull('accepted_at')
+      .select('user_id');
+    return rows.map((r) => r.user_id);
+  }
+
+  /** IDs of users this user has exchanged messages with since `since`. */
+  static async findRecentPeerIds(userId: string, since: Date): Promise<string[]> {
+    const rows = await this.query()
+      .where({ user_id: userId })
+      .where('last_message_at', '>=', since)
+      .select('peer_id');
+    return rows.map((r) => r.peer_id);
+  }
+}
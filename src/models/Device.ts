@@ -1,4 +1,5 @@
 import { Model, RelationMappingsThunk } from 'objection';
+import { v4 as uuidv4 } from 'uuid';
 import { BaseModel } from './BaseModel';
 
 export class Device extends BaseModel {
@@ -9,6 +10,8 @@ export class Device extends BaseModel {
   device_id!: string;
   identity_public_key!: string;
   registration_id!: number;
+  /** Replaced on every login; JWTs carry it as their `sessionId` claim. */
+  session_id!: string;
   device_name?: string;
   fcm_token?: string | null;
   last_seen_at!: Date;
@@ -36,7 +39,12 @@ export class Device extends BaseModel {
 
   // Static query methods
   static async findByUserId(userId: string): Promise<Device[]> {
-    return this.query().where({ user_id: userId });
+    return this.query().where({ user_id: userId }).orderBy('created_at', 'asc');
+  }
+
+  static async findByUserIds(userIds: string[]): Promise<Device[]> {
+    if (userIds.length === 0) return [];
+    return this.query().whereIn('user_id', userIds);
   }
 
   static async findByUserIdAndDeviceId(
@@ -46,29 +54,60 @@ export class Device extends BaseModel {
     return this.query().findOne({ user_id: userId, device_id: deviceId });
   }
 
+  /**
+   * Register a device for a user, or refresh the record of a device that
+   * has logged in before.  Other devices of the same user are left intact.
+   * An omitted `deviceName` keeps the name the device already has.
+   * Either way the device gets a fresh `session_id`, which invalidates the
+   * tokens of its previous session.
+   */
   static async upsertDevice(
     userId: string,
     deviceId: string,
     identityPublicKey: string,
     registrationId: number,
-    fcmToken?: string
+    fcmToken?: string,
+    deviceName?: string
   ): Promise<Device> {
     return Device.transaction(async (trx) => {
-      // Delete all other devices for this user (single session enforcement)
-      await this.query(trx).where({ user_id: userId }).delete();
+      const existing = await this.query(trx)
+        .findOne({ user_id: userId, device_id: deviceId })
+        .forUpdate();
+
+      if (existing) {
+        return this.query(trx).patchAndFetchById(existing.id, {
+          identity_public_key: identityPublicKey,
+          registration_id: registrationId,
+          fcm_token: fcmToken || null,
+          ...(deviceName !== undefined && { device_name: deviceName }),
+          session_id: uuidv4(),
+          last_seen_at: new Date(),
+        });
+      }
 
-      // Insert the new/current device
       return this.query(trx).insertAndFetch({
         user_id: userId,
         device_id: deviceId,
         identity_public_key: identityPublicKey,
         registration_id: registrationId,
         fcm_token: fcmToken || null,
+        device_name: deviceName,
+        session_id: uuidv4(),
         last_seen_at: new Date(),
       });
     });
   }
 
+  static async rename(
+    userId: string,
+    deviceId: string,
+    deviceName: string
+  ): Promise<Device | undefined> {
+    const device = await this.findByUserIdAndDeviceId(userId, deviceId);
+    if (!device) return undefined;
+    return this.query().patchAndFetchById(device.id, { device_name: deviceName });
+  }
+
   static async deleteByUserIdAndDeviceId(userId: string, deviceId: string): Promise<number> {
     return this.query().where({ user_id: userId, device_id: deviceId }).delete();
   }
@@ -86,10 +125,27 @@ export class Device extends BaseModel {
   static async updateFcmToken(
     userId: string,
     deviceId: string,
-    fcmToken: string
+    fcmToken: string | null
   ): Promise<Device | undefined> {
     const device = await this.findByUserIdAndDeviceId(userId, deviceId);
     if (!device) return undefined;
     return this.query().patchAndFetchById(device.id, { fcm_token: fcmToken });
   }
+
+  /** Devices of a user, limited to `deviceIds`, that have a push token. */
+  static async findPushTargets(userId: string, deviceIds: string[]): Promise<Device[]> {
+    if (deviceIds.length === 0) return [];
+    return this.query()
+      .where({ user_id: userId })
+      .whereIn('device_id', deviceIds)
+      .whereNotNull('fcm_token');
+  }
+
+  /**
+   * Clear a push token the provider reported as unregistered.  Only clears
+   * it if the device has not registered a different token in the meantime.
+   */
+  static async clearFcmToken(id: string, fcmToken: string): Promise<number> {
+    return this.query().where({ id, fcm_token: fcmToken }).patch({ fcm_token: null });
+  }
 }
@@ -0,0 +1,36 @@
+import { Model, RelationMappingsThunk } from 'objection';
+import { BaseModel } from './BaseModel';
+
+export class Group extends BaseModel {
+  static tableName = 'groups';
+
+  declare id: string;
+  name?: string | null;
+  created_by?: string | null;
+  declare created_at: Date;
+  updated_at!: Date;
+
+  // Relations
+  members?: import('./GroupMember').GroupMember[];
+
+  static get relationMappings(): RelationMappingsThunk {
+    return () => {
+      const { GroupMember } = require('./GroupMember');
+
+      return {
+        members: {
+          relation: Model.HasManyRelation,
+          modelClass: GroupMember,
+          join: {
+            from: 'groups.id',
+            to: 'group_members.group_id',
+          },
+        },
+      };
+    };
+  }
+
+  $beforeUpdate() {
+    this.updated_at = new Date();
+  }
+}
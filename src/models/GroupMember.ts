@@ -0,0 +1,121 @@
+import { Model, RelationMappingsThunk, TransactionOrKnex } from 'objection';
+import { BaseModel } from './BaseModel';
+import { GroupRole } from '../types';
+
+export class GroupMember extends BaseModel {
+  static tableName = 'group_members';
+
+  declare id: string;
+  group_id!: string;
+  user_id!: string;
+  role!: GroupRole;
+  added_by?: string | null;
+  declare created_at: Date;
+
+  // Relations
+  group?: import('./Group').Group;
+  user?: import('./User').User;
+
+  static get relationMappings(): RelationMappingsThunk {
+    return () => {
+      const { Group } = require('./Group');
+      const { User } = require('./User');
+
+      return {
+        group: {
+          relation: Model.BelongsToOneRelation,
+          modelClass: Group,
+          join: {
+            from: 'group_members.group_id',
+            to: 'groups.id',
+          },
+        },
+        user: {
+          relation: Model.BelongsToOneRelation,
+          modelClass: User,
+          join: {
+            from: 'group_members.user_id',
+            to: 'users.id',
+          },
+        },
+      };
+    };
+  }
+
+  get isAdmin(): boolean {
+    return this.role === 'admin';
+  }
+
+  // Static query methods
+  static async findMembership(groupId: string, userId: string): Promise<GroupMember | undefined> {
+    return this.query().findOne({ group_id: groupId, user_id: userId });
+  }
+
+  static async findByGroupId(groupId: string): Promise<GroupMember[]> {
+    return this.query().where({ group_id: groupId }).orderBy('created_at', 'asc');
+  }
+
+  static async countAdmins(groupId: string, trx?: TransactionOrKnex): Promise<number> {
+    const result = await this.query(trx)
+      .where({ group_id: groupId, role: 'admin' })
+      .count('id as count')
+      .first();
+    return parseInt((result as { count?: string } | undefined)?.count || '0', 10);
+  }
+
+  /**
+   * Change a member's role.  Membership changes of a group are serialized
+   * on its `groups` row, so two admins demoting each other cannot both
+   * succeed.  Returns `'last_admin'` if the change would leave the group
+   * without an admin, or `undefined` if the user is no longer a member.
+   */
+  static async updateRole(
+    groupId: string,
+    userId: string,
+    role: GroupRole
+  ): Promise<GroupMember | 'last_admin' | undefined> {
+    return this.transaction(async (trx) => {
+      await trx('groups').where({ id: groupId }).forUpdate().first('id');
+
+      const member = await this.query(trx).findOne({ group_id: groupId, user_id: userId });
+      if (!member || member.role === role) return member;
+
+      if (member.isAdmin && (await this.countAdmins(groupId, trx)) <= 1) {
+        return 'last_admin';
+      }
+
+      return this.query(trx).patchAndFetchById(member.id, { role });
+    });
+  }
+
+  /**
+   * Remove a member under the same lock as {@link updateRole}.  The last
+   * admin cannot leave while other members remain (`'last_admin'`); when
+   * the last member leaves, the group itself is deleted
+   * (`'group_deleted'`).  Returns `undefined` if the user was not a member.
+   */
+  static async remove(
+    groupId: string,
+    userId: string
+  ): Promise<'removed' | 'group_deleted' | 'last_admin' | undefined> {
+    return this.transaction(async (trx) => {
+      await trx('groups').where({ id: groupId }).forUpdate().first('id');
+
+      const members = await this.query(trx).where({ group_id: groupId });
+      const member = members.find((m) => m.user_id === userId);
+      if (!member) return undefined;
+
+      if (members.length === 1) {
+        await trx('groups').where({ id: groupId }).delete();
+        return 'group_deleted';
+      }
+
+      if (member.isAdmin && !members.some((m) => m.isAdmin && m.id !== member.id)) {
+        return 'last_admin';
+      }
+
+      await this.query(trx).deleteById(member.id);
+      return 'removed';
+    });
+  }
+}
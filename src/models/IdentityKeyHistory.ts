@@ -0,0 +1,39 @@
+import { Model, RelationMappingsThunk } from 'objection';
+import { BaseModel } from './BaseModel';
+
+export class IdentityKeyHistory extends BaseModel {
+  static tableName = 'identity_key_history';
+
+  declare id: string;
+  user_id!: string;
+  old_public_key!: string;
+  new_public_key!: string;
+  signature!: string;
+  rotated_by_device_id?: string | null;
+  declare created_at: Date;
+
+  // Relations
+  user?: import('./User').User;
+
+  static get relationMappings(): RelationMappingsThunk {
+    return () => {
+      const { User } = require('./User');
+
+      return {
+        user: {
+          relation: Model.BelongsToOneRelation,
+          modelClass: User,
+          join: {
+            from: 'identity_key_history.user_id',
+            to: 'users.id',
+          },
+        },
+      };
+    };
+  }
+
+  // Static query methods
+  static async findByUserId(userId: string): Promise<IdentityKeyHistory[]> {
+    return this.query().where({ user_id: userId }).orderBy('created_at', 'desc');
+  }
+}
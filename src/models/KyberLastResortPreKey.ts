@@ -0,0 +1,68 @@
+import { Model, RelationMappingsThunk } from 'objection';
+import { BaseModel } from './BaseModel';
+
+/**
+ * Signed Kyber-1024 last-resort pre-key (PQXDH).  One per device; handed out
+ * whenever the device's one-time Kyber pool is empty and never consumed.
+ */
+export class KyberLastResortPreKey extends BaseModel {
+  static tableName = 'kyber_last_resort_pre_keys';
+
+  declare id: string;
+  user_id!: string;
+  device_id!: string;
+  key_id!: number;
+  public_key!: string;
+  signature!: string;
+  declare created_at: Date;
+
+  // Relations
+  user?: import('./User').User;
+
+  static get relationMappings(): RelationMappingsThunk {
+    return () => {
+      const { User } = require('./User');
+
+      return {
+        user: {
+          relation: Model.BelongsToOneRelation,
+          modelClass: User,
+          join: {
+            from: 'kyber_last_resort_pre_keys.user_id',
+            to: 'users.id',
+          },
+        },
+      };
+    };
+  }
+
+  // Static query methods
+  static async findByDevice(
+    userId: string,
+    deviceId: string
+  ): Promise<KyberLastResortPreKey | undefined> {
+    return this.query().findOne({ user_id: userId, device_id: deviceId });
+  }
+
+  /** Replace the device's last-resort key (a device holds at most one). */
+  static async upsert(data: {
+    user_id: string;
+    device_id: string;
+    key_id: number;
+    public_key: string;
+    signature: string;
+  }): Promise<KyberLastResortPreKey> {
+    const existing = await this.findByDevice(data.user_id, data.device_id);
+
+    if (existing) {
+      return this.query().patchAndFetchById(existing.id, {
+        key_id: data.key_id,
+        public_key: data.public_key,
+        signature: data.signature,
+        created_at: new Date(),
+      });
+    }
+
+    return this.query().insertAndFetch(data);
+  }
+}
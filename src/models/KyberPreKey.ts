@@ -0,0 +1,75 @@
+import { Model, RelationMappingsThunk } from 'objection';
+import { BaseModel } from './BaseModel';
+
+/** Signed one-time Kyber-1024 pre-key (PQXDH). */
+export class KyberPreKey extends BaseModel {
+  static tableName = 'kyber_pre_keys';
+
+  declare id: string;
+  user_id!: string;
+  device_id!: string;
+  key_id!: number;
+  public_key!: string;
+  signature!: string;
+  declare created_at: Date;
+
+  // Relations
+  user?: import('./User').User;
+
+  static get relationMappings(): RelationMappingsThunk {
+    return () => {
+      const { User } = require('./User');
+
+      return {
+        user: {
+          relation: Model.BelongsToOneRelation,
+          modelClass: User,
+          join: {
+            from: 'kyber_pre_keys.user_id',
+            to: 'users.id',
+          },
+        },
+      };
+    };
+  }
+
+  // Static query methods
+  static async countByDevice(userId: string, deviceId: string): Promise<number> {
+    const result = await this.query()
+      .where({ user_id: userId, device_id: deviceId })
+      .count('id as count')
+      .first();
+    return parseInt((result as { count?: string } | undefined)?.count || '0', 10);
+  }
+
+  static async consumeOne(userId: string, deviceId: string): Promise<KyberPreKey | undefined> {
+    return KyberPreKey.transaction(async (trx) => {
+      // Lock and fetch the oldest Kyber pre-key for this device
+      const key = await this.query(trx)
+        .where({ user_id: userId, device_id: deviceId })
+        .orderBy('created_at', 'asc')
+        .forUpdate()
+        .first();
+
+      if (!key) return undefined;
+
+      // Delete it within the same transaction
+      await this.query(trx).deleteById(key.id);
+
+      return key;
+    });
+  }
+
+  static async createBatch(
+    keys: Array<{
+      user_id: string;
+      device_id: string;
+      key_id: number;
+      public_key: string;
+      signature: string;
+    }>
+  ): Promise<KyberPreKey[]> {
+    if (keys.length === 0) return [];
+    return this.query().insertAndFetch(keys);
+  }
+}
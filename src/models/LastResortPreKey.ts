@@ -0,0 +1,66 @@
+import { Model, RelationMappingsThunk } from 'objection';
+import { BaseModel } from './BaseModel';
+
+/**
+ * Curve25519 last-resort pre-key.  One per device; handed out whenever the
+ * device's one-time pre-key pool is empty and never consumed, so a drained
+ * pool cannot force bundles without a one-time key.
+ */
+export class LastResortPreKey extends BaseModel {
+  static tableName = 'last_resort_pre_keys';
+
+  declare id: string;
+  user_id!: string;
+  device_id!: string;
+  key_id!: number;
+  public_key!: string;
+  declare created_at: Date;
+
+  // Relations
+  user?: import('./User').User;
+
+  static get relationMappings(): RelationMappingsThunk {
+    return () => {
+      const { User } = require('./User');
+
+      return {
+        user: {
+          relation: Model.BelongsToOneRelation,
+          modelClass: User,
+          join: {
+            from: 'last_resort_pre_keys.user_id',
+            to: 'users.id',
+          },
+        },
+      };
+    };
+  }
+
+  // Static query methods
+  static async findByDevice(
+    userId: string,
+    deviceId: string
+  ): Promise<LastResortPreKey | undefined> {
+    return this.query().findOne({ user_id: userId, device_id: deviceId });
+  }
+
+  /** Replace the device's last-resort key (a device holds at most one). */
+  static async upsert(data: {
+    user_id: string;
+    device_id: string;
+    key_id: number;
+    public_key: string;
+  }): Promise<LastResortPreKey> {
+    const existing = await this.findByDevice(data.user_id, data.device_id);
+
+    if (existing) {
+      return this.query().patchAndFetchById(existing.id, {
+        key_id: data.key_id,
+        public_key: data.public_key,
+        created_at: new Date(),
+      });
+    }
+
+    return this.query().insertAndFetch(data);
+  }
+}
@@ -6,6 +6,7 @@ export class OneTimePreKey extends BaseModel {
 
   declare id: string;
   user_id!: string;
+  device_id!: string;
   key_id!: number;
   public_key!: string;
   declare created_at: Date;
@@ -31,16 +32,19 @@ export class OneTimePreKey extends BaseModel {
   }
 
   // Static query methods
-  static async countByUserId(userId: string): Promise<number> {
-    const result = await this.query().where({ user_id: userId }).count('id as count').first();
+  static async countByDevice(userId: string, deviceId: string): Promise<number> {
+    const result = await this.query()
+      .where({ user_id: userId, device_id: deviceId })
+      .count('id as count')
+      .first();
     return parseInt((result as any)?.count || '0', 10);
   }
 
-  static async consumeOne(userId: string): Promise<OneTimePreKey | undefined> {
+  static async consumeOne(userId: string, deviceId: string): Promise<OneTimePreKey | undefined> {
     return OneTimePreKey.transaction(async (trx) => {
-      // Lock and fetch the oldest one-time pre-key for this user
+      // Lock and fetch the oldest one-time pre-key for this device
       const key = await this.query(trx)
-        .where({ user_id: userId })
+        .where({ user_id: userId, device_id: deviceId })
         .orderBy('created_at', 'asc')
         .forUpdate()
         .first();
@@ -55,7 +59,7 @@ export class OneTimePreKey extends BaseModel {
   }
 
   static async createBatch(
-    keys: Array<{ user_id: string; key_id: number; public_key: string }>
+    keys: Array<{ user_id: string; device_id: string; key_id: number; public_key: string }>
   ): Promise<OneTimePreKey[]> {
     if (keys.length === 0) return [];
     return this.query().insertAndFetch(keys);
@@ -5,13 +5,31 @@ export class QueuedMessage extends BaseModel {
   static tableName = 'message_queue';
 
   declare id: string;
+  message_id!: string;
   recipient_id!: string;
-  sender_id!: string;
+  recipient_device_id!: string;
+  /** `null` for sealed-sender messages. */
+  sender_id!: string | null;
+  sender_device_id?: string | null;
   encrypted_payload!: Buffer;
   message_type!: string;
-  file_reference?: string;
+  /** JSON array of attachment IDs, if the message carries any. */
+  file_reference?: string | null;
+  group_id?: string | null;
+  last_emitted_at?: Date | null;
+  delivery_attempts!: number;
+  /** Number of device copies the message was queued as. */
+  copy_count!: number;
+  /** First time the copy was returned by the non-destructive offline fetch. */
+  fetched_at?: Date | null;
   declare created_at: Date;
   expires_at!: Date;
+  /** Set while a scheduled message is held back; `null` once it is released. */
+  deliver_at?: Date | null;
+  /** Held as a message request until the recipient accepts the sender. */
+  is_request!: boolean;
+  /** Transaction that made the row visible to the recipient (`xid8`, as text). */
+  delivery_xid!: string;
 
   // Relations
   recipient?: import('./User').User;
@@ -42,6 +60,17 @@ export class QueuedMessage extends BaseModel {
     };
   }
 
+  /** Attachment IDs carried by this message. */
+  get attachmentIds(): string[] {
+    if (!this.file_reference) return [];
+    try {
+      const names: unknown = JSON.parse(this.file_reference);
+      return Array.isArray(names) ? names.filter((n): n is string => typeof n === 'string') : [];
+    } catch {
+      return [];
+    }
+  }
+
   // Static query methods
   static async findByRecipientId(recipientId: string): Promise<QueuedMessage[]> {
     return this.query().where({ recipient_id: recipientId }).orderBy('created_at', 'asc');
@@ -55,11 +84,18 @@ export class QueuedMessage extends BaseModel {
     return parseInt((result as any)?.count || '0', 10);
   }
 
-  static async fetchAndDelete(recipientId: string, limit: number = 100): Promise<QueuedMessage[]> {
+  static async fetchAndDelete(
+    recipientId: string,
+    deviceId: string,
+    limit: number = 100
+  ): Promise<QueuedMessage[]> {
     return this.transaction(async (trx) => {
       // Lock selected rows to prevent duplicate delivery
       const messages = await this.query(trx)
-        .where({ recipient_id: recipientId })
+        .where({ recipient_id: recipientId, recipient_device_id: deviceId })
+        .where('expires_at', '>', new Date())
+        .whereNull('deliver_at')
+        .where({ is_request: false })
         .orderBy('created_at', 'asc')
         .limit(limit)
         .forUpdate();
@@ -73,6 +109,248 @@ export class QueuedMessage extends BaseModel {
     });
   }
 
+  /**
+   * Non-destructive, keyset-paginated read of a device's queue in
+   * `(delivery_xid, id)` order.  `after` is the position of the last row of
+   * the previous page.
+   *
+   * Only rows written by transactions older than every transaction still
+   * running are returned: anything committed later has a higher
+   * `delivery_xid` than the page just read, so it always lands after the
+   * cursor.  Rows still in flight show up on a later fetch (their device is
+   * pushed or woken once they commit).
+   *
+   * Expired rows are skipped even before the expiry sweep removes them,
+   * as are scheduled messages that have not been released yet and
+   * pending message requests.
+   */
+  static async findPageByDevice(
+    recipientId: string,
+    deviceId: string,
+    limit: number,
+    after?: { xid: string; id: string }
+  ): Promise<{ messages: QueuedMessage[]; hasMore: boolean }> {
+    const query = this.query()
+      .where({ recipient_id: recipientId, recipient_device_id: deviceId })
+      .where('expires_at', '>', new Date())
+      .whereNull('deliver_at')
+      .where({ is_request: false })
+      .whereRaw('delivery_xid < pg_snapshot_xmin(pg_current_snapshot())')
+      .orderBy([
+        { column: 'delivery_xid', order: 'asc' },
+        { column: 'id', order: 'asc' },
+      ])
+      .limit(limit + 1);
+
+    if (after) {
+      query.whereRaw('(delivery_xid, id) > (?::xid8, ?::uuid)', [after.xid, after.id]);
+    }
+
+    const rows = await query;
+    const messages = rows.slice(0, limit);
+
+    // Recorded so an unsend can tell the sender the message was already seen
+    const unfetched = messages.filter((m) => !m.fetched_at).map((m) => m.id);
+    if (unfetched.length > 0) {
+      await this.query().whereIn('id', unfetched).patch({ fetched_at: new Date() });
+    }
+
+    return { messages, hasMore: rows.length > limit };
+  }
+
+  static async hasPendingForDevice(recipientId: string, deviceId: string): Promise<boolean> {
+    const row = await this.query()
+      .where({ recipient_id: recipientId, recipient_device_id: deviceId })
+      .where('expires_at', '>', new Date())
+      .whereNull('deliver_at')
+      .where({ is_request: false })
+      .select('id')
+      .first();
+    return !!row;
+  }
+
+  /**
+   * Messages pushed over a socket more than `timeoutMs` ago that are still
+   * awaiting an acknowledgement and have not used up their retry budget.
+   */
+  static async findUnacked(
+    timeoutMs: number,
+    maxAttempts: number,
+    limit: number = 500
+  ): Promise<QueuedMessage[]> {
+    return this.query()
+      .whereNotNull('last_emitted_at')
+      .where('last_emitted_at', '<', new Date(Date.now() - timeoutMs))
+      .where('delivery_attempts', '<', maxAttempts)
+      .where('expires_at', '>', new Date())
+      .orderBy('created_at', 'asc')
+      .limit(limit);
+  }
+
+  static async findUnackedByDevice(
+    recipientId: string,
+    deviceId: string,
+    limit: number = 100
+  ): Promise<QueuedMessage[]> {
+    return this.query()
+      .where({ recipient_id: recipientId, recipient_device_id: deviceId })
+      .whereNotNull('last_emitted_at')
+      .where('expires_at', '>', new Date())
+      .orderBy('created_at', 'asc')
+      .limit(limit);
+  }
+
+  /**
+   * Atomically bump `last_emitted_at` on rows that are still timed out.
+   * Returns the IDs this caller won, so concurrent sweeps on several server
+   * instances do not re-emit the same message.
+   */
+  static async claimForRedelivery(ids: string[], timeoutMs: number): Promise<string[]> {
+    if (ids.length === 0) return [];
+    const claimed = await this.query()
+      .whereIn('id', ids)
+      .where('last_emitted_at', '<', new Date(Date.now() - timeoutMs))
+      .patch({ last_emitted_at: new Date() })
+      .returning('id');
+    return (claimed as unknown as Array<{ id: string }>).map((row) => row.id);
+  }
+
+  static async markEmitted(ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+    return this.query()
+      .whereIn('id', ids)
+      .patch({
+        last_emitted_at: new Date(),
+        delivery_attempts: this.raw('delivery_attempts + 1'),
+      });
+  }
+
+  /** Remove the copies of the given messages addressed to one device. */
+  static async acknowledge(
+    recipientId: string,
+    deviceId: string,
+    messageIds: string[]
+  ): Promise<number> {
+    if (messageIds.length === 0) return 0;
+    return this.query()
+      .whereIn('message_id', messageIds)
+      .andWhere({ recipient_id: recipientId, recipient_device_id: deviceId })
+      .delete();
+  }
+
+  /**
+   * Delete every still-queued copy of a message written by a client device
+   * of `senderId` and return the deleted rows.  Server-generated events
+   * (no `sender_device_id`) cannot be retracted.
+   */
+  static async retract(messageId: string, senderId: string): Promise<QueuedMessage[]> {
+    const deleted = await this.query()
+      .where({ message_id: messageId, sender_id: senderId })
+      .whereNotNull('sender_device_id')
+      .delete()
+      .returning('*');
+    return deleted as unknown as QueuedMessage[];
+  }
+
+  /**
+   * Atomically release scheduled rows whose `deliver_at` has passed by
+   * clearing it, and return them.  Each row is returned to exactly one
+   * caller, so every server instance can run the scheduler.  The release
+   * re-stamps `delivery_xid`, so devices already paging past the row's
+   * original position still get it.
+   */
+  static async claimDueScheduled(limit: number = 500): Promise<QueuedMessage[]> {
+    const due = this.query()
+      .select('id')
+      .where('deliver_at', '<=', new Date())
+      .where('expires_at', '>', new Date())
+      .orderBy('deliver_at', 'asc')
+      .limit(limit)
+      .forUpdate()
+      .skipLocked();
+
+    const released = await this.query()
+      .whereIn('id', due)
+      .patch({ deliver_at: null, delivery_xid: this.raw('pg_current_xact_id()') })
+      .returning('*');
+    return released as unknown as QueuedMessage[];
+  }
+
+  /** Scheduled, not yet released copies of every message sent by `senderId`. */
+  static async findScheduledBySender(senderId: string): Promise<QueuedMessage[]> {
+    return this.query()
+      .select(
+        'id',
+        'message_id',
+        'recipient_id',
+        'recipient_device_id',
+        'group_id',
+        'file_reference',
+        'deliver_at',
+        'expires_at',
+        'created_at'
+      )
+      .where({ sender_id: senderId })
+      .where('deliver_at', '>', new Date())
+      .orderBy([
+        { column: 'deliver_at', order: 'asc' },
+        { column: 'message_id', order: 'asc' },
+      ]);
+  }
+
+  /** Delete the unreleased copies of a scheduled message of `senderId`. */
+  static async cancelScheduled(messageId: string, senderId: string): Promise<number> {
+    return this.query()
+      .where({ message_id: messageId, sender_id: senderId })
+      .where('deliver_at', '>', new Date())
+      .delete();
+  }
+
+  /** A device's pending message requests, oldest first. */
+  static async findRequestsForDevice(
+    recipientId: string,
+    deviceId: string,
+    limit: number = 500
+  ): Promise<QueuedMessage[]> {
+    return this.query()
+      .where({ recipient_id: recipientId, recipient_device_id: deviceId, is_request: true })
+      .where('expires_at', '>', new Date())
+      .orderBy('created_at', 'asc')
+      .limit(limit);
+  }
+
+  /**
+   * Turn every pending request from the given senders to `recipientId`
+   * into a regular queued message and return the released rows.  Like a
+   * scheduled release, this re-stamps `delivery_xid` so cursors already past
+   * the rows' original position still reach them.
+   */
+  static async releaseRequests(recipientId: string, senderIds: string[]): Promise<QueuedMessage[]> {
+    if (senderIds.length === 0) return [];
+    const released = await this.query()
+      .where({ recipient_id: recipientId, is_request: true })
+      .whereIn('sender_id', senderIds)
+      .patch({ is_request: false, delivery_xid: this.raw('pg_current_xact_id()') })
+      .returning('*');
+    return released as unknown as QueuedMessage[];
+  }
+
+  /**
+   * Delete every pending request from the given senders to `recipientId`.
+   * Returns the IDs of the affected messages.
+   */
+  static async deleteRequests(recipientId: string, senderIds: string[]): Promise<string[]> {
+    if (senderIds.length === 0) return [];
+    const deleted = await this.query()
+      .where({ recipient_id: recipientId, is_request: true })
+      .whereIn('sender_id', senderIds)
+      .delete()
+      .returning('message_id');
+    return [
+      ...new Set((deleted as unknown as Array<{ message_id: string }>).map((r) => r.message_id)),
+    ];
+  }
+
   static async deleteByIds(ids: string[]): Promise<number> {
     if (ids.length === 0) return 0;
     return this.query().whereIn('id', ids).delete();
@@ -6,6 +6,7 @@ export class SignedPreKey extends BaseModel {
 
   declare id: string;
   user_id!: string;
+  device_id!: string;
   key_id!: number;
   public_key!: string;
   signature!: string;
@@ -32,24 +33,32 @@ export class SignedPreKey extends BaseModel {
   }
 
   // Static query methods
-  static async findLatestByUserId(userId: string): Promise<SignedPreKey | undefined> {
-    return this.query().where({ user_id: userId }).orderBy('created_at', 'desc').first();
+  static async findLatestByDevice(
+    userId: string,
+    deviceId: string
+  ): Promise<SignedPreKey | undefined> {
+    return this.query()
+      .where({ user_id: userId, device_id: deviceId })
+      .orderBy('created_at', 'desc')
+      .first();
   }
 
-  static async findByUserIdAndKeyId(
+  static async findByDeviceAndKeyId(
     userId: string,
+    deviceId: string,
     keyId: number
   ): Promise<SignedPreKey | undefined> {
-    return this.query().findOne({ user_id: userId, key_id: keyId });
+    return this.query().findOne({ user_id: userId, device_id: deviceId, key_id: keyId });
   }
 
   static async upsert(data: {
     user_id: string;
+    device_id: string;
     key_id: number;
     public_key: string;
     signature: string;
   }): Promise<SignedPreKey> {
-    const existing = await this.findByUserIdAndKeyId(data.user_id, data.key_id);
+    const existing = await this.findByDeviceAndKeyId(data.user_id, data.device_id, data.key_id);
 
     if (existing) {
       return this.query().patchAndFetchById(existing.id, {
@@ -61,9 +70,13 @@ export class SignedPreKey extends BaseModel {
     return this.query().insertAndFetch(data);
   }
 
-  static async deleteOldKeys(userId: string, keepLatest: number = 5): Promise<number> {
+  static async deleteOldKeys(
+    userId: string,
+    deviceId: string,
+    keepLatest: number = 5
+  ): Promise<number> {
     const keysToKeep = await this.query()
-      .where({ user_id: userId })
+      .where({ user_id: userId, device_id: deviceId })
       .orderBy('created_at', 'desc')
       .limit(keepLatest)
       .select('id');
@@ -72,6 +85,20 @@ export class SignedPreKey extends BaseModel {
 
     if (keepIds.length === 0) return 0;
 
-    return this.query().where({ user_id: userId }).whereNotIn('id', keepIds).delete();
+    return this.query()
+      .where({ user_id: userId, device_id: deviceId })
+      .whereNotIn('id', keepIds)
+      .delete();
+  }
+
+  /** Devices holding more than `keepLatest` signed pre-keys. */
+  static async findDevicesWithExcessKeys(
+    keepLatest: number
+  ): Promise<Array<{ user_id: string; device_id: string }>> {
+    const rows = await this.query()
+      .select('user_id', 'device_id')
+      .groupBy('user_id', 'device_id')
+      .havingRaw('count(*) > ?', [keepLatest]);
+    return rows.map((r) => ({ user_id: r.user_id, device_id: r.device_id }));
   }
 }
@@ -1,5 +1,6 @@
-import { Model, RelationMappingsThunk } from 'objection';
+import { Model, Pojo, RelationMappingsThunk } from 'objection';
 import { BaseModel } from './BaseModel';
+import { PresenceVisibility } from '../types';
 
 export class User extends BaseModel {
   static tableName = 'users';
@@ -8,6 +9,9 @@ export class User extends BaseModel {
   username!: string;
   identity_public_key!: string;
   registration_id!: number;
+  is_admin!: boolean;
+  unidentified_access_key?: string | null;
+  presence_visibility!: PresenceVisibility;
   declare created_at: Date;
   updated_at!: Date;
 
@@ -55,11 +59,23 @@ export class User extends BaseModel {
     this.updated_at = new Date();
   }
 
+  // Never expose the sealed-sender access key in API responses
+  $formatJson(json: Pojo): Pojo {
+    const formatted = super.$formatJson(json);
+    delete formatted.unidentified_access_key;
+    return formatted;
+  }
+
   // Static query methods
   static async findByUsername(username: string): Promise<User | undefined> {
     return this.query().findOne({ username });
   }
 
+  static async isAdmin(id: string): Promise<boolean> {
+    const user = await this.query().findById(id).select('is_admin');
+    return user?.is_admin === true;
+  }
+
   static async findByIdWithKeys(id: string): Promise<User | undefined> {
     return this.query().findById(id).withGraphFetched('[signedPreKeys, oneTimePreKeys]');
   }
@@ -5,3 +5,13 @@ export { OneTimePreKey } from './OneTimePreKey';
 export { QueuedMessage } from './QueuedMessage';
 export { Device } from './Device';
 export { AuthChallenge } from './AuthChallenge';
+export { Group } from './Group';
+export { GroupMember } from './GroupMember';
+export { IdentityKeyHistory } from './IdentityKeyHistory';
+export { Conversation } from './Conversation';
+export { KyberPreKey } from './KyberPreKey';
+export { KyberLastResortPreKey } from './KyberLastResortPreKey';
+export { LastResortPreKey } from './LastResortPreKey';
+export { Attachment } from './Attachment';
+export { Call } from './Call';
+export { Block } from './Block';
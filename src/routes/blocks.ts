@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { listBlocks, blockUser, unblockUser } from '../controllers/blocks';
+
+const router = Router();
+
+// GET /api/blocks — Users the caller has blocked
+router.get('/', listBlocks);
+
+// POST /api/blocks — Block a user
+router.post('/', blockUser);
+
+// DELETE /api/blocks/:userId — Unblock a user
+router.delete('/:userId', unblockUser);
+
+export default router;
@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { getTurnCredentials } from '../controllers/calls';
+
+const router = Router();
+
+// GET /api/calls/turn-credentials — Time-limited TURN credentials for WebRTC calls
+router.get('/turn-credentials', getTurnCredentials);
+
+export default router;
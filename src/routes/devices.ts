@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { listDevices, renameDevice, revokeDevice, updatePushToken } from '../controllers/devices';
+
+const router = Router();
+
+// GET /api/devices — List the user's devices with their online status
+router.get('/', listDevices);
+
+// PUT /api/devices/push-token — Register / replace / clear this device's push token
+router.put('/push-token', updatePushToken);
+
+// PATCH /api/devices/:deviceId — Rename one of the user's devices
+router.patch('/:deviceId', renameDevice);
+
+// DELETE /api/devices/:deviceId — Sign one of the user's devices out remotely
+router.delete('/:deviceId', revokeDevice);
+
+export default router;
@@ -1,30 +1,78 @@
-import { Router, Request, Response } from 'express';
+import { Router, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
 import { minioService } from '../services/MinioService';
+import { Attachment } from '../models';
 import { ApiResponse } from '../types';
+import { AuthenticatedRequest } from '../middleware/auth';
 
 const router = Router();
 
-// Get a presigned URL for uploading a file
-router.post('/upload-url', async (req: Request, res: Response) => {
-  try {
-    const { filename, expiry = 3600 } = req.body;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface AttachmentRequest extends AuthenticatedRequest {
+  attachment?: Attachment;
+}
+
+/**
+ * Load the attachment named by `:attachmentId` and check the caller may
+ * access it: the uploader always may; with `allowRecipients`, so may any
+ * user with a queued copy of a message referencing it.  Unknown IDs and
+ * denied callers both get 404 so attachment IDs cannot be probed.
+ */
+function requireAttachmentAccess(options: { allowRecipients: boolean }) {
+  return async (req: AttachmentRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { attachmentId } = req.params;
+      const notFound: ApiResponse = {
+        success: false,
+        error: 'File not found',
+      };
 
-    if (!filename) {
+      if (!UUID_RE.test(attachmentId)) {
+        res.status(404).json(notFound);
+        return;
+      }
+
+      const attachment = await Attachment.query().findById(attachmentId);
+      const userId = req.user!.userId;
+      const allowed =
+        !!attachment &&
+        (attachment.owner_id === userId ||
+          (options.allowRecipients && (await Attachment.isRecipient(attachment.id, userId))));
+
+      if (!allowed) {
+        res.status(404).json(notFound);
+        return;
+      }
+
+      req.attachment = attachment;
+      next();
+    } catch (error) {
+      console.error('Attachment access check error:', error);
       const response: ApiResponse = {
         success: false,
-        error: 'Missing required field: filename',
+        error: 'Internal server error',
       };
-      return res.status(400).json(response);
+      res.status(500).json(response);
     }
+  };
+}
 
-    const objectName = `${Date.now()}-${filename}`;
-    const url = await minioService.getPresignedUploadUrl(objectName, expiry);
+// Get a presigned URL for uploading a new attachment.  The object is named by
+// a random attachment ID; the original filename belongs inside the encrypted
+// message, not in storage.
+router.post('/upload-url', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { expiry = 3600 } = req.body;
+
+    const attachment = await Attachment.register(req.user!.userId, uuidv4());
+    const url = await minioService.getPresignedUploadUrl(attachment.object_name, expiry);
 
-    const response: ApiResponse<{ url: string; object_name: string; expires_in: number }> = {
+    const response: ApiResponse<{ url: string; attachment_id: string; expires_in: number }> = {
       success: true,
       data: {
         url,
-        object_name: objectName,
+        attachment_id: attachment.id,
         expires_in: expiry,
       },
     };
@@ -39,99 +87,104 @@ router.post('/upload-url', async (req: Request, res: Response) => {
   }
 });
 
-// Get a presigned URL for downloading a file
-router.get('/download-url/:objectName', async (req: Request, res: Response) => {
-  try {
-    const { objectName } = req.params;
-    const { expiry = 3600 } = req.query;
-
-    const exists = await minioService.fileExists(objectName);
-    if (!exists) {
+// Get a presigned URL for downloading an attachment — uploader or recipients only
+router.get(
+  '/download-url/:attachmentId',
+  requireAttachmentAccess({ allowRecipients: true }),
+  async (req: AttachmentRequest, res: Response) => {
+    try {
+      const objectName = req.attachment!.object_name;
+      const { expiry = 3600 } = req.query;
+
+      const exists = await minioService.fileExists(objectName);
+      if (!exists) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'File not found',
+        };
+        return res.status(404).json(response);
+      }
+
+      const url = await minioService.getPresignedUrl(objectName, parseInt(expiry as string, 10));
+
+      const response: ApiResponse<{ url: string; expires_in: number }> = {
+        success: true,
+        data: {
+          url,
+          expires_in: parseInt(expiry as string, 10),
+        },
+      };
+      return res.json(response);
+    } catch (error) {
+      console.error('Error generating download URL:', error);
       const response: ApiResponse = {
         success: false,
-        error: 'File not found',
+        error: 'Internal server error',
       };
-      return res.status(404).json(response);
+      return res.status(500).json(response);
     }
-
-    const url = await minioService.getPresignedUrl(objectName, parseInt(expiry as string, 10));
-
-    const response: ApiResponse<{ url: string; expires_in: number }> = {
-      success: true,
-      data: {
-        url,
-        expires_in: parseInt(expiry as string, 10),
-      },
-    };
-    return res.json(response);
-  } catch (error) {
-    console.error('Error generating download URL:', error);
-    const response: ApiResponse = {
-      success: false,
-      error: 'Internal server error',
-    };
-    return res.status(500).json(response);
   }
-});
-
-// Get file info
-router.get('/info/:objectName', async (req: Request, res: Response) => {
-  try {
-    const { objectName } = req.params;
-
-    const info = await minioService.getFileInfo(objectName);
-    if (!info) {
+);
+
+// Get attachment info — uploader or recipients only
+router.get(
+  '/info/:attachmentId',
+  requireAttachmentAccess({ allowRecipients: true }),
+  async (req: AttachmentRequest, res: Response) => {
+    try {
+      const objectName = req.attachment!.object_name;
+
+      const info = await minioService.getFileInfo(objectName);
+      if (!info) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'File not found',
+        };
+        return res.status(404).json(response);
+      }
+
+      const response: ApiResponse<typeof info> = {
+        success: true,
+        data: info,
+      };
+      return res.json(response);
+    } catch (error) {
+      console.error('Error getting file info:', error);
       const response: ApiResponse = {
         success: false,
-        error: 'File not found',
+        error: 'Internal server error',
       };
-      return res.status(404).json(response);
+      return res.status(500).json(response);
     }
-
-    const response: ApiResponse<typeof info> = {
-      success: true,
-      data: info,
-    };
-    return res.json(response);
-  } catch (error) {
-    console.error('Error getting file info:', error);
-    const response: ApiResponse = {
-      success: false,
-      error: 'Internal server error',
-    };
-    return res.status(500).json(response);
   }
-});
+);
 
-// Delete a file
-router.delete('/:objectName', async (req: Request, res: Response) => {
-  try {
-    const { objectName } = req.params;
+// Delete an attachment — uploader only
+router.delete(
+  '/:attachmentId',
+  requireAttachmentAccess({ allowRecipients: false }),
+  async (req: AttachmentRequest, res: Response) => {
+    try {
+      const attachment = req.attachment!;
 
-    const exists = await minioService.fileExists(objectName);
-    if (!exists) {
+      // Removing a missing object is a no-op, so never-uploaded slots go too
+      await minioService.deleteFile(attachment.object_name);
+      await Attachment.query().deleteById(attachment.id);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'File deleted successfully',
+      };
+      return res.json(response);
+    } catch (error) {
+      console.error('Error deleting file:', error);
       const response: ApiResponse = {
         success: false,
-        error: 'File not found',
+        error: 'Internal server error',
       };
-      return res.status(404).json(response);
+      return res.status(500).json(response);
     }
-
-    await minioService.deleteFile(objectName);
-
-    const response: ApiResponse = {
-      success: true,
-      message: 'File deleted successfully',
-    };
-    return res.json(response);
-  } catch (error) {
-    console.error('Error deleting file:', error);
-    const response: ApiResponse = {
-      success: false,
-      error: 'Internal server error',
-    };
-    return res.status(500).json(response);
   }
-});
+);
 
 export default router;
@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import {
+  createGroup,
+  listGroups,
+  listMembers,
+  addMembers,
+  updateMemberRole,
+  removeMember,
+  sendGroupMessage,
+} from '../controllers/groups';
+
+const router = Router();
+
+// POST /api/groups — Create a group (caller becomes admin)
+router.post('/', createGroup);
+
+// GET  /api/groups — List the caller's groups
+router.get('/', listGroups);
+
+// GET  /api/groups/:id/members — List members (members only)
+router.get('/:id/members', listMembers);
+
+// POST /api/groups/:id/members — Add members (admins only)
+router.post('/:id/members', addMembers);
+
+// PATCH /api/groups/:id/members/:userId — Change a member's role (admins only)
+router.patch('/:id/members/:userId', updateMemberRole);
+
+// DELETE /api/groups/:id/members/:userId — Remove a member, or leave the group
+router.delete('/:id/members/:userId', removeMember);
+
+// POST /api/groups/:id/send — Fan a sender-key ciphertext out to all members
+router.post('/:id/send', sendGroupMessage);
+
+export default router;
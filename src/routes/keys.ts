@@ -1,38 +1,137 @@
 import { Router, Request, Response } from 'express';
-import { SignedPreKey, OneTimePreKey } from '../models';
+import {
+  SignedPreKey,
+  OneTimePreKey,
+  LastResortPreKey,
+  KyberPreKey,
+  KyberLastResortPreKey,
+} from '../models';
 import { KeyBundleService } from '../services/KeyBundleService';
-import { ApiResponse, PreKeyBundle } from '../types';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { requireOwnership, fromBody, fromParam } from '../middleware/authorize';
+import { ApiResponse, PreKeyBundle, SignedPreKeyStatus } from '../types';
+import {
+  isValidEd25519Signature,
+  isValidPreKeyPublicKey,
+  isValidKyberPublicKey,
+} from '../utils/crypto';
 
 const router = Router();
 
-// Upload signed pre-key
-router.post('/signed-pre-key', async (req: Request, res: Response) => {
-  try {
-    const { user_id, key_id, public_key, signature } = req.body;
+/** Upper bound on Kyber pre-keys per upload (each key is ~2 KB of base64). */
+const MAX_KYBER_BATCH = 100;
+
+interface SignedKeyInput {
+  key_id: number;
+  public_key: string;
+  signature: string;
+}
+
+/**
+ * Validate the shape of a signed Kyber pre-key upload entry.
+ * Returns an error message, or `null` if the entry is well-formed.
+ */
+function validateKyberKey(key: unknown): string | null {
+  if (typeof key !== 'object' || key === null) {
+    return 'Each Kyber pre-key must be an object';
+  }
+  const { key_id, public_key, signature } = key as Partial<SignedKeyInput>;
+  if (!Number.isInteger(key_id) || (key_id as number) < 0) {
+    return 'key_id must be a non-negative integer';
+  }
+  if (typeof public_key !== 'string' || !isValidKyberPublicKey(public_key)) {
+    return 'public_key must be a base64-encoded Kyber-1024 public key';
+  }
+  if (typeof signature !== 'string' || !isValidEd25519Signature(signature)) {
+    return 'signature must be a base64-encoded 64-byte Ed25519 signature';
+  }
+  return null;
+}
+
+// Upload signed pre-key for the authenticated device
+// (`user_id` in the body is optional and must match the caller).
+// The signature must verify against the user's identity key.
+router.post(
+  '/signed-pre-key',
+  requireOwnership(fromBody('user_id')),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { key_id, public_key, signature } = req.body;
+      const { userId, deviceId } = req.user!;
+
+      if (key_id === undefined || !public_key || !signature) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Missing required fields: key_id, public_key, signature',
+        };
+        return res.status(400).json(response);
+      }
+
+      if (typeof public_key !== 'string' || !isValidPreKeyPublicKey(public_key)) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'public_key must be a base64-encoded Curve25519 public key',
+        };
+        return res.status(400).json(response);
+      }
+
+      if (typeof signature !== 'string' || !isValidEd25519Signature(signature)) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'signature must be a base64-encoded 64-byte Ed25519 signature',
+        };
+        return res.status(400).json(response);
+      }
+
+      const valid = await KeyBundleService.verifyPreKeySignatures(userId, deviceId, [
+        { public_key, signature },
+      ]);
+      if (!valid) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Invalid signed pre-key signature — it must be signed by the device identity key',
+        };
+        return res.status(400).json(response);
+      }
+
+      const key = await SignedPreKey.upsert({
+        user_id: userId,
+        device_id: deviceId,
+        key_id,
+        public_key,
+        signature,
+      });
 
-    if (!user_id || key_id === undefined || !public_key || !signature) {
+      const response: ApiResponse<SignedPreKey> = {
+        success: true,
+        data: key,
+        message: 'Signed pre-key uploaded successfully',
+      };
+      return res.status(201).json(response);
+    } catch (error) {
+      console.error('Error uploading signed pre-key:', error);
       const response: ApiResponse = {
         success: false,
-        error: 'Missing required fields: user_id, key_id, public_key, signature',
+        error: 'Internal server error',
       };
-      return res.status(400).json(response);
+      return res.status(500).json(response);
     }
+  }
+);
 
-    const key = await SignedPreKey.upsert({
-      user_id,
-      key_id,
-      public_key,
-      signature,
-    });
+// Rotation status of the caller's signed pre-key (max age, rotate-by date)
+router.get('/signed-pre-key/status', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { userId, deviceId } = req.user!;
+    const status = await KeyBundleService.getSignedPreKeyStatus(userId, deviceId);
 
-    const response: ApiResponse<SignedPreKey> = {
+    const response: ApiResponse<SignedPreKeyStatus> = {
       success: true,
-      data: key,
-      message: 'Signed pre-key uploaded successfully',
+      data: status,
     };
-    return res.status(201).json(response);
+    return res.json(response);
   } catch (error) {
-    console.error('Error uploading signed pre-key:', error);
+    console.error('Error fetching signed pre-key status:', error);
     const response: ApiResponse = {
       success: false,
       error: 'Internal server error',
@@ -41,55 +140,244 @@ router.post('/signed-pre-key', async (req: Request, res: Response) => {
   }
 });
 
-// Upload one-time pre-keys (batch)
-router.post('/one-time-pre-keys', async (req: Request, res: Response) => {
-  try {
-    const {
-      user_id,
-      keys,
-    }: { user_id: string; keys: Array<{ key_id: number; public_key: string }> } = req.body;
+// Upload one-time pre-keys (batch) for the authenticated device
+// (`user_id` in the body is optional and must match the caller)
+router.post(
+  '/one-time-pre-keys',
+  requireOwnership(fromBody('user_id')),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { keys }: { keys: Array<{ key_id: number; public_key: string }> } = req.body;
+      const { userId, deviceId } = req.user!;
+
+      if (!keys || !Array.isArray(keys) || keys.length === 0) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Missing required field: keys (array)',
+        };
+        return res.status(400).json(response);
+      }
 
-    if (!user_id || !keys || !Array.isArray(keys) || keys.length === 0) {
+      const keyData = keys.map((k) => ({
+        user_id: userId,
+        device_id: deviceId,
+        key_id: k.key_id,
+        public_key: k.public_key,
+      }));
+
+      const createdKeys = await OneTimePreKey.createBatch(keyData);
+
+      const response: ApiResponse<{ count: number; keys: OneTimePreKey[] }> = {
+        success: true,
+        data: {
+          count: createdKeys.length,
+          keys: createdKeys,
+        },
+        message: `${createdKeys.length} one-time pre-keys uploaded successfully`,
+      };
+      return res.status(201).json(response);
+    } catch (error) {
+      console.error('Error uploading one-time pre-keys:', error);
       const response: ApiResponse = {
         success: false,
-        error: 'Missing required fields: user_id, keys (array)',
+        error: 'Internal server error',
       };
-      return res.status(400).json(response);
+      return res.status(500).json(response);
     }
+  }
+);
 
-    const keyData = keys.map((k) => ({
-      user_id,
-      key_id: k.key_id,
-      public_key: k.public_key,
-    }));
+// Upload (or replace) the authenticated device's last-resort pre-key, served
+// in bundles once the one-time pool is empty and never consumed
+// (`user_id` in the body is optional and must match the caller)
+router.post(
+  '/last-resort-pre-key',
+  requireOwnership(fromBody('user_id')),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { key_id, public_key } = req.body;
+      const { userId, deviceId } = req.user!;
 
-    const createdKeys = await OneTimePreKey.createBatch(keyData);
+      if (key_id === undefined || !public_key) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Missing required fields: key_id, public_key',
+        };
+        return res.status(400).json(response);
+      }
 
-    const response: ApiResponse<{ count: number; keys: OneTimePreKey[] }> = {
-      success: true,
-      data: {
-        count: createdKeys.length,
-        keys: createdKeys,
-      },
-      message: `${createdKeys.length} one-time pre-keys uploaded successfully`,
-    };
-    return res.status(201).json(response);
-  } catch (error) {
-    console.error('Error uploading one-time pre-keys:', error);
-    const response: ApiResponse = {
-      success: false,
-      error: 'Internal server error',
-    };
-    return res.status(500).json(response);
+      if (!Number.isInteger(key_id) || key_id < 0) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'key_id must be a non-negative integer',
+        };
+        return res.status(400).json(response);
+      }
+
+      if (typeof public_key !== 'string' || !isValidPreKeyPublicKey(public_key)) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'public_key must be a base64-encoded Curve25519 public key',
+        };
+        return res.status(400).json(response);
+      }
+
+      const key = await LastResortPreKey.upsert({
+        user_id: userId,
+        device_id: deviceId,
+        key_id,
+        public_key,
+      });
+
+      const response: ApiResponse<LastResortPreKey> = {
+        success: true,
+        data: key,
+        message: 'Last-resort pre-key uploaded successfully',
+      };
+      return res.status(201).json(response);
+    } catch (error) {
+      console.error('Error uploading last-resort pre-key:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Internal server error',
+      };
+      return res.status(500).json(response);
+    }
   }
-});
+);
+
+// Upload signed one-time Kyber pre-keys (batch) for the authenticated device
+// (`user_id` in the body is optional and must match the caller)
+router.post(
+  '/kyber-pre-keys',
+  requireOwnership(fromBody('user_id')),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { keys } = req.body;
+      const { userId, deviceId } = req.user!;
+
+      if (!keys || !Array.isArray(keys) || keys.length === 0) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Missing required field: keys (array)',
+        };
+        return res.status(400).json(response);
+      }
+
+      if (keys.length > MAX_KYBER_BATCH) {
+        const response: ApiResponse = {
+          success: false,
+          error: `At most ${MAX_KYBER_BATCH} Kyber pre-keys may be uploaded at once`,
+        };
+        return res.status(400).json(response);
+      }
+
+      for (const key of keys) {
+        const invalid = validateKyberKey(key);
+        if (invalid) {
+          const response: ApiResponse = { success: false, error: invalid };
+          return res.status(400).json(response);
+        }
+      }
+
+      const signedKeys = keys as SignedKeyInput[];
+      const valid = await KeyBundleService.verifyPreKeySignatures(userId, deviceId, signedKeys);
+      if (!valid) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Invalid Kyber pre-key signature — keys must be signed by the device identity key',
+        };
+        return res.status(400).json(response);
+      }
+
+      const createdKeys = await KyberPreKey.createBatch(
+        signedKeys.map((k) => ({
+          user_id: userId,
+          device_id: deviceId,
+          key_id: k.key_id,
+          public_key: k.public_key,
+          signature: k.signature,
+        }))
+      );
+
+      const response: ApiResponse<{ count: number; keys: KyberPreKey[] }> = {
+        success: true,
+        data: {
+          count: createdKeys.length,
+          keys: createdKeys,
+        },
+        message: `${createdKeys.length} Kyber pre-keys uploaded successfully`,
+      };
+      return res.status(201).json(response);
+    } catch (error) {
+      console.error('Error uploading Kyber pre-keys:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Internal server error',
+      };
+      return res.status(500).json(response);
+    }
+  }
+);
+
+// Upload (or replace) the authenticated device's signed last-resort Kyber pre-key
+// (`user_id` in the body is optional and must match the caller)
+router.post(
+  '/kyber-last-resort-pre-key',
+  requireOwnership(fromBody('user_id')),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { userId, deviceId } = req.user!;
+
+      const invalid = validateKyberKey(req.body);
+      if (invalid) {
+        const response: ApiResponse = { success: false, error: invalid };
+        return res.status(400).json(response);
+      }
+
+      const { key_id, public_key, signature } = req.body as SignedKeyInput;
+      const valid = await KeyBundleService.verifyPreKeySignatures(userId, deviceId, [
+        { public_key, signature },
+      ]);
+      if (!valid) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Invalid Kyber pre-key signature — it must be signed by the device identity key',
+        };
+        return res.status(400).json(response);
+      }
 
-// Get pre-key bundle for establishing a session
-router.get('/bundle/:userId', async (req: Request, res: Response) => {
+      const key = await KyberLastResortPreKey.upsert({
+        user_id: userId,
+        device_id: deviceId,
+        key_id,
+        public_key,
+        signature,
+      });
+
+      const response: ApiResponse<KyberLastResortPreKey> = {
+        success: true,
+        data: key,
+        message: 'Last-resort Kyber pre-key uploaded successfully',
+      };
+      return res.status(201).json(response);
+    } catch (error) {
+      console.error('Error uploading last-resort Kyber pre-key:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Internal server error',
+      };
+      return res.status(500).json(response);
+    }
+  }
+);
+
+// Get pre-key bundles (one per device) for establishing sessions with a user
+router.get('/bundle/:userId', async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { userId } = req.params;
 
-    const bundle = await KeyBundleService.getPreKeyBundle(userId);
+    const bundle = await KeyBundleService.getPreKeyBundle(userId, req.user?.userId);
 
     if (!bundle) {
       const response: ApiResponse = {
@@ -114,51 +402,62 @@ router.get('/bundle/:userId', async (req: Request, res: Response) => {
   }
 });
 
-// Get one-time pre-key count for a user
-router.get('/one-time-pre-keys/count/:userId', async (req: Request, res: Response) => {
-  try {
-    const { userId } = req.params;
-    const count = await KeyBundleService.getOneTimePreKeyCount(userId);
+// Get one-time pre-key count for a user's device (defaults to the caller's device)
+// Owner or admin only
+router.get(
+  '/one-time-pre-keys/count/:userId',
+  requireOwnership(fromParam('userId'), { allowAdmin: true }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { userId } = req.params;
+      const deviceId =
+        typeof req.query.deviceId === 'string' ? req.query.deviceId : req.user!.deviceId;
+      const count = await KeyBundleService.getOneTimePreKeyCount(userId, deviceId);
 
-    const response: ApiResponse<{ count: number; needsMore: boolean }> = {
-      success: true,
-      data: {
-        count,
-        needsMore: count < 10,
-      },
-    };
-    return res.json(response);
-  } catch (error) {
-    console.error('Error fetching pre-key count:', error);
-    const response: ApiResponse = {
-      success: false,
-      error: 'Internal server error',
-    };
-    return res.status(500).json(response);
+      const response: ApiResponse<{ count: number; needsMore: boolean }> = {
+        success: true,
+        data: {
+          count,
+          needsMore: count < 10,
+        },
+      };
+      return res.json(response);
+    } catch (error) {
+      console.error('Error fetching pre-key count:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Internal server error',
+      };
+      return res.status(500).json(response);
+    }
   }
-});
+);
 
-// Get user's signed pre-keys (for debugging/admin)
-router.get('/signed-pre-keys/:userId', async (req: Request, res: Response) => {
-  try {
-    const { userId } = req.params;
-    const keys = await SignedPreKey.query()
-      .where({ user_id: userId })
-      .orderBy('created_at', 'desc');
+// Get user's signed pre-keys (for debugging/admin) — owner or admin only
+router.get(
+  '/signed-pre-keys/:userId',
+  requireOwnership(fromParam('userId'), { allowAdmin: true }),
+  async (req: Request, res: Response) => {
+    try {
+      const { userId } = req.params;
+      const keys = await SignedPreKey.query()
+        .where({ user_id: userId })
+        .orderBy('created_at', 'desc');
 
-    const response: ApiResponse<SignedPreKey[]> = {
-      success: true,
-      data: keys,
-    };
-    return res.json(response);
-  } catch (error) {
-    console.error('Error fetching signed pre-keys:', error);
-    const response: ApiResponse = {
-      success: false,
-      error: 'Internal server error',
-    };
-    return res.status(500).json(response);
+      const response: ApiResponse<SignedPreKey[]> = {
+        success: true,
+        data: keys,
+      };
+      return res.json(response);
+    } catch (error) {
+      console.error('Error fetching signed pre-keys:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Internal server error',
+      };
+      return res.status(500).json(response);
+    }
   }
-});
+);
 
 export default router;
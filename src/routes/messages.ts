@@ -1,15 +1,47 @@
 import { Router } from 'express';
-import { sendMessage, fetchOfflineMessages, deleteMessages } from '../controllers/messages';
+import {
+  sendMessage,
+  fetchOfflineMessages,
+  deleteMessages,
+  unsendMessage,
+  listScheduledMessages,
+  cancelScheduledMessage,
+  listMessageRequests,
+  acceptMessageRequests,
+  deleteMessageRequests,
+  getSenderCertificate,
+} from '../controllers/messages';
 
 const router = Router();
 
 // POST /api/messages/send — Relay a message (real-time or queued)
 router.post('/send', sendMessage);
 
-// GET  /api/messages/offline — Fetch & delete queued offline messages
+// GET  /api/messages/sender-certificate — Certificate for sealed-sender envelopes
+router.get('/sender-certificate', getSenderCertificate);
+
+// GET  /api/messages/offline — Page through queued messages (ack via /batch)
 router.get('/offline', fetchOfflineMessages);
 
+// GET  /api/messages/scheduled — The caller's scheduled messages not yet released
+router.get('/scheduled', listScheduledMessages);
+
+// DELETE /api/messages/scheduled/:id — Cancel a scheduled message before it is released
+router.delete('/scheduled/:id', cancelScheduledMessage);
+
+// GET  /api/messages/requests — Held first-contact messages, grouped by sender
+router.get('/requests', listMessageRequests);
+
+// POST /api/messages/requests/accept — Accept senders and release their requests
+router.post('/requests/accept', acceptMessageRequests);
+
+// DELETE /api/messages/requests — Delete the requests of the given senders
+router.delete('/requests', deleteMessageRequests);
+
 // DELETE /api/messages/batch — Client-driven ack / delete specific messages
 router.delete('/batch', deleteMessages);
 
+// DELETE /api/messages/:id/unsend — Retract a still-queued message the caller sent
+router.delete('/:id/unsend', unsendMessage);
+
 export default router;
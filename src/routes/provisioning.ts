@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { sendProvisioningMessage } from '../controllers/provisioning';
+
+const router = Router();
+
+// PUT /api/provisioning/:address — Relay an encrypted provisioning message to a new device
+router.put('/:address', sendProvisioningMessage);
+
+export default router;
@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { sendSealedMessage } from '../controllers/messages';
+
+// Unauthenticated routes — callers are checked by unidentified access key
+const router = Router();
+
+// POST /api/sealed/messages — Sealed-sender delivery (no sender on the server)
+router.post('/messages', sendSealedMessage);
+
+export default router;
@@ -1,6 +1,17 @@
 import { Router, Request, Response } from 'express';
 import { User } from '../models';
-import { ApiResponse } from '../types';
+import { ApiResponse, PresenceVisibility } from '../types';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth';
+import { requireOwnership, fromParam } from '../middleware/authorize';
+import { IdentityService } from '../services/IdentityService';
+import { PresenceService } from '../services/PresenceService';
+import {
+  isValidEd25519PublicKey,
+  isValidEd25519Signature,
+  isValidUnidentifiedAccessKey,
+} from '../utils/crypto';
+
+const PRESENCE_VISIBILITIES = new Set<PresenceVisibility>(['everyone', 'contacts', 'nobody']);
 
 const router = Router();
 
@@ -107,47 +118,181 @@ router.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
-// Update user identity key (for key rotation)
-router.put('/:id/identity', async (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-    const { identity_public_key, registration_id } = req.body;
+// Rotate user identity key — only the user themselves, and only with a
+// signature by the current identity key over the new one
+router.put(
+  '/:id/identity',
+  authenticate,
+  requireOwnership(fromParam('id')),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { identity_public_key, registration_id, signature } = req.body;
+
+      if (!identity_public_key || registration_id === undefined || !signature) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Missing required fields: identity_public_key, registration_id, signature',
+        };
+        return res.status(400).json(response);
+      }
+
+      if (
+        typeof identity_public_key !== 'string' ||
+        !isValidEd25519PublicKey(identity_public_key)
+      ) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'identity_public_key must be a base64-encoded 32-byte Ed25519 public key',
+        };
+        return res.status(400).json(response);
+      }
+
+      if (typeof signature !== 'string' || !isValidEd25519Signature(signature)) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'signature must be a base64-encoded 64-byte Ed25519 signature',
+        };
+        return res.status(400).json(response);
+      }
 
-    if (!identity_public_key || registration_id === undefined) {
+      if (!Number.isInteger(registration_id) || registration_id < 0) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'registration_id must be a non-negative integer',
+        };
+        return res.status(400).json(response);
+      }
+
+      const outcome = await IdentityService.rotateIdentityKey(
+        id,
+        req.user!.deviceId,
+        identity_public_key,
+        registration_id,
+        signature
+      );
+
+      if (!outcome.ok) {
+        const response: ApiResponse = {
+          success: false,
+          error: outcome.error,
+        };
+        return res.status(outcome.status).json(response);
+      }
+
+      const response: ApiResponse<{ user: User; invalidatedDevices: string[] }> = {
+        success: true,
+        data: { user: outcome.user, invalidatedDevices: outcome.invalidatedDevices },
+        message: 'Identity key rotated successfully',
+      };
+      return res.json(response);
+    } catch (error) {
+      console.error('Error rotating identity key:', error);
       const response: ApiResponse = {
         success: false,
-        error: 'Missing required fields: identity_public_key, registration_id',
+        error: 'Internal server error',
       };
-      return res.status(400).json(response);
+      return res.status(500).json(response);
     }
+  }
+);
 
-    const user = await User.query().patchAndFetchById(id, {
-      identity_public_key,
-      registration_id,
-    });
+// Register (or clear, with null) the key senders must present to deliver
+// sealed-sender messages to this user — only the user themselves
+router.put(
+  '/:id/access-key',
+  authenticate,
+  requireOwnership(fromParam('id')),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { unidentified_access_key } = req.body;
 
-    if (!user) {
+      if (
+        unidentified_access_key !== null &&
+        (typeof unidentified_access_key !== 'string' ||
+          !isValidUnidentifiedAccessKey(unidentified_access_key))
+      ) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'unidentified_access_key must be a base64-encoded 16-byte key or null',
+        };
+        return res.status(400).json(response);
+      }
+
+      const updated = await User.query().patch({ unidentified_access_key }).where({ id });
+      if (updated === 0) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'User not found',
+        };
+        return res.status(404).json(response);
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        message: unidentified_access_key
+          ? 'Unidentified access key updated successfully'
+          : 'Sealed-sender delivery disabled',
+      };
+      return res.json(response);
+    } catch (error) {
+      console.error('Error updating unidentified access key:', error);
       const response: ApiResponse = {
         success: false,
-        error: 'User not found',
+        error: 'Internal server error',
       };
-      return res.status(404).json(response);
+      return res.status(500).json(response);
     }
+  }
+);
 
-    const response: ApiResponse<User> = {
-      success: true,
-      data: user,
-      message: 'Identity key updated successfully',
-    };
-    return res.json(response);
-  } catch (error) {
-    console.error('Error updating user:', error);
-    const response: ApiResponse = {
-      success: false,
-      error: 'Internal server error',
-    };
-    return res.status(500).json(response);
+// Choose who may see this user's presence and last-seen time — only the
+// user themselves.  Existing presence subscriptions are dropped and must be
+// re-requested, so the new setting applies to them too.
+router.put(
+  '/:id/presence-privacy',
+  authenticate,
+  requireOwnership(fromParam('id')),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { presence_visibility } = req.body;
+
+      if (!PRESENCE_VISIBILITIES.has(presence_visibility)) {
+        const response: ApiResponse = {
+          success: false,
+          error: `Invalid presence_visibility. Allowed: ${[...PRESENCE_VISIBILITIES].join(', ')}`,
+        };
+        return res.status(400).json(response);
+      }
+
+      const updated = await User.query().patch({ presence_visibility }).where({ id });
+      if (updated === 0) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'User not found',
+        };
+        return res.status(404).json(response);
+      }
+
+      PresenceService.resetSubscribers(id);
+
+      const response: ApiResponse<{ presence_visibility: PresenceVisibility }> = {
+        success: true,
+        data: { presence_visibility },
+        message: 'Presence privacy updated successfully',
+      };
+      return res.json(response);
+    } catch (error) {
+      console.error('Error updating presence privacy:', error);
+      const response: ApiResponse = {
+        success: false,
+        error: 'Internal server error',
+      };
+      return res.status(500).json(response);
+    }
   }
-});
+);
 
 export default router;
@@ -0,0 +1,82 @@
+import { Attachment } from '../models';
+import { minioService } from './MinioService';
+
+/** Uploads never attached to a message are reclaimed after this long. */
+const UNATTACHED_GRACE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Lifecycle of uploaded objects referenced by queued messages.
+ *
+ * An upload slot is registered in `attachments` when it is issued.  Sending
+ * a message that references it links the attachment to the message and
+ * counts one reference per recipient device copy.  Once every copy has been
+ * fetched or acknowledged (or has expired) the object is deleted from MinIO.
+ */
+export class AttachmentService {
+  /**
+   * Resolve the attachment IDs of an outgoing message.  Every attachment
+   * must have been issued to the sender and its upload must have completed.
+   * Returns the attachments, or an error message.
+   */
+  static async resolveForSend(
+    senderId: string,
+    attachmentIds: string[]
+  ): Promise<Attachment[] | string> {
+    if (attachmentIds.length === 0) return [];
+
+    const attachments = await Attachment.findOwned(senderId, attachmentIds);
+    const known = new Set(attachments.map((a) => a.id));
+    const unknown = attachmentIds.find((id) => !known.has(id));
+    if (unknown) {
+      return `Unknown attachment: ${unknown}`;
+    }
+
+    for (const attachment of attachments) {
+      if (!(await minioService.fileExists(attachment.object_name))) {
+        return `Attachment has not been uploaded: ${attachment.id}`;
+      }
+    }
+
+    return attachments;
+  }
+
+  /**
+   * Re-check the attachments of messages whose copies were just removed and
+   * delete any that are no longer referenced.  Never throws.
+   */
+  static async release(messageIds: string[]): Promise<void> {
+    try {
+      const attachments = await Attachment.findByMessageIds(messageIds);
+      if (attachments.length === 0) return;
+
+      const ids = attachments.map((a) => a.id);
+      await Attachment.recount(ids);
+      await this.purge(await Attachment.findUnreferenced(ids));
+    } catch (error) {
+      console.error('[AttachmentService] Failed to release attachments:', error);
+    }
+  }
+
+  /**
+   * Recount every referenced attachment (catching copies removed by the
+   * expiry sweep) and delete the unreferenced ones, including uploads that
+   * were never attached within the grace period.  Returns the number of
+   * objects deleted.
+   */
+  static async collectGarbage(): Promise<number> {
+    await Attachment.recount();
+    const cutoff = new Date(Date.now() - UNATTACHED_GRACE_MS);
+    return this.purge(await Attachment.findUnreferenced(undefined, cutoff));
+  }
+
+  /** Delete the objects and their `attachments` rows. */
+  private static async purge(attachments: Attachment[]): Promise<number> {
+    let purged = 0;
+    for (const attachment of attachments) {
+      await minioService.deleteFile(attachment.object_name);
+      await Attachment.query().deleteById(attachment.id);
+      purged++;
+    }
+    return purged;
+  }
+}
@@ -0,0 +1,446 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { Block, Call, Conversation, Device } from '../models';
+import { CallType } from '../types';
+import { config } from '../config';
+import { JwtPayload } from '../middleware/auth';
+import { getIO, deviceRoom, clientKey, findOnlineClientKeys } from '../socket';
+import { messageDeliveryService } from './MessageDeliveryService';
+import { GroupService } from './GroupService';
+
+/** `message_type` of server-generated missed-call notifications. */
+export const CALL_MISSED_MESSAGE_TYPE = 'call_missed';
+
+/** How often ringing calls are checked for the ring timeout. */
+const SWEEP_INTERVAL_MS = 5 * 1000;
+
+/** One encrypted offer addressed to a single callee device. */
+export interface CallOfferEnvelope {
+  deviceId: string;
+  ciphertext: string;
+}
+
+export interface CallOfferInput {
+  calleeId: string;
+  callType: CallType;
+  offers: CallOfferEnvelope[];
+}
+
+/** An encrypted answer / ICE candidate for an existing call. */
+export interface CallSignalInput {
+  callId: string;
+  ciphertext: string;
+}
+
+export type CallEndReason =
+  | 'hangup'
+  | 'cancelled'
+  | 'declined'
+  | 'busy'
+  | 'offline'
+  | 'timeout'
+  | 'disconnected'
+  | 'answered_elsewhere';
+
+/** Shape of the `call_offer` Socket.io event. */
+export interface CallOfferEvent {
+  callId: string;
+  callerId: string;
+  callerDeviceId: string;
+  callType: CallType;
+  ciphertext: string;
+  timestamp: string;
+}
+
+/** Shape of the `call_answer` Socket.io event. */
+export interface CallAnswerEvent {
+  callId: string;
+  calleeDeviceId: string;
+  ciphertext: string;
+}
+
+/** Shape of the `ice_candidate` Socket.io event. */
+export interface IceCandidateEvent {
+  callId: string;
+  senderId: string;
+  senderDeviceId: string;
+  ciphertext: string;
+}
+
+/** Shape of the `call_hangup` Socket.io event. */
+export interface CallHangupEvent {
+  callId: string;
+  reason: CallEndReason;
+  timestamp: string;
+}
+
+/**
+ * Server-generated notification of a call the callee did not pick up.
+ * Delivered as a queued message of type `call_missed` whose payload is this
+ * object as UTF-8 JSON, so offline devices learn about it on reconnect.
+ */
+export interface MissedCallEvent {
+  callId: string;
+  callerId: string;
+  callType: CallType;
+  reason: CallEndReason;
+  timestamp: string;
+}
+
+export interface TurnCredentials {
+  username: string;
+  credential: string;
+  ttl: number;
+  uris: string[];
+}
+
+export type CallOutcome<T = undefined> =
+  | { ok: true; data: T }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Call signaling for 1:1 voice and video calls.
+ *
+ * The server only relays end-to-end encrypted WebRTC signaling between the
+ * caller's device and the callee's devices, and tracks each call in the
+ * `calls` table:
+ *
+ *   ringing ──answer──▶ active ──hangup──▶ ended
+ *      └──────── cancel / decline / timeout ────────▶ ended
+ *
+ * An offer to a user who is already in a call ends immediately as `busy`;
+ * one whose addressed devices are all offline — or whose callee has not
+ * accepted the caller (see message requests) — ends as `offline`.  Calls
+ * that ring for `config.calls.ringTimeoutMs` end as `timeout`.  In each of
+ * those cases — and when the caller cancels — the callee gets a queued
+ * `call_missed` message.
+ */
+export class CallService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * Start ringing the callee's online devices, or end the call right away.
+   * A callee who has not accepted the caller is deliberately reported as
+   * `offline` even when online, so a stranger learns nothing about their
+   * presence; clients should treat `offline` as final for that attempt and
+   * not retry automatically.
+   */
+  async offer(
+    caller: JwtPayload,
+    input: CallOfferInput
+  ): Promise<CallOutcome<{ callId: string; status: 'ringing' | CallEndReason }>> {
+    if (input.calleeId === caller.userId) {
+      return { ok: false, status: 400, error: 'Cannot call yourself' };
+    }
+
+    const calleeDevices = await Device.findByUserId(input.calleeId);
+    if (calleeDevices.length === 0) {
+      return { ok: false, status: 404, error: 'Callee not found or has no active device' };
+    }
+
+    if (await Call.findOngoingForUser(caller.userId)) {
+      return { ok: false, status: 409, error: 'Already in a call' };
+    }
+
+    // Calls from a blocked user never ring; they look unanswered, like
+    // dropped messages, unless blocked senders are told
+    if (await Block.isBlocked(input.calleeId, caller.userId)) {
+      if (config.blocks.messageResponse === 'reject') {
+        return { ok: false, status: 403, error: 'Callee is not accepting your calls' };
+      }
+      return { ok: true, data: { callId: uuidv4(), status: 'offline' } };
+    }
+
+    const registered = new Set(calleeDevices.map((d) => d.device_id));
+    const offers = input.offers.filter((o) => registered.has(o.deviceId));
+    const onlineKeys = await findOnlineClientKeys(
+      offers.map((o) => ({ userId: input.calleeId, deviceId: o.deviceId }))
+    );
+    const ringing = offers.filter((o) => onlineKeys.has(clientKey(input.calleeId, o.deviceId)));
+
+    // Strangers never ring; their missed-call notice is held as a message request
+    const accepted = await Conversation.isAccepted(input.calleeId, caller.userId);
+
+    // The busy check and the insert run under both users' locks, so two
+    // concurrent offers cannot both ring the same callee
+    const call = await Call.place(
+      {
+        caller_id: caller.userId,
+        caller_device_id: caller.deviceId,
+        callee_id: input.calleeId,
+        call_type: input.callType,
+      },
+      (calleeBusy): CallEndReason | null => {
+        if (!accepted) return 'offline';
+        if (calleeBusy) return 'busy';
+        return ringing.length === 0 ? 'offline' : null;
+      }
+    );
+    if (!call) {
+      return { ok: false, status: 409, error: 'Already in a call' };
+    }
+
+    const endReason = call.end_reason as CallEndReason | null;
+    if (endReason) {
+      await this.notifyMissed(call, endReason);
+      return { ok: true, data: { callId: call.id, status: endReason } };
+    }
+
+    const io = getIO();
+    for (const offer of ringing) {
+      const event: CallOfferEvent = {
+        callId: call.id,
+        callerId: caller.userId,
+        callerDeviceId: caller.deviceId,
+        callType: call.call_type,
+        ciphertext: offer.ciphertext,
+        timestamp: new Date(call.created_at).toISOString(),
+      };
+      io.to(deviceRoom(input.calleeId, offer.deviceId)).emit('call_offer', event);
+    }
+
+    return { ok: true, data: { callId: call.id, status: 'ringing' } };
+  }
+
+  /**
+   * Accept a ringing call on one of the callee's devices.  The first device
+   * to answer wins; the callee's other devices stop ringing.
+   */
+  async answer(callee: JwtPayload, input: CallSignalInput): Promise<CallOutcome> {
+    const call = await Call.query().findById(input.callId);
+    if (!call || call.callee_id !== callee.userId) {
+      return { ok: false, status: 404, error: 'Call not found' };
+    }
+
+    const answered = await Call.answer(call.id, callee.deviceId);
+    if (!answered) {
+      return { ok: false, status: 409, error: 'Call is no longer ringing' };
+    }
+
+    const io = getIO();
+    const event: CallAnswerEvent = {
+      callId: call.id,
+      calleeDeviceId: callee.deviceId,
+      ciphertext: input.ciphertext,
+    };
+    io.to(deviceRoom(call.caller_id, call.caller_device_id)).emit('call_answer', event);
+    io.to(callee.userId)
+      .except(deviceRoom(callee.userId, callee.deviceId))
+      .emit('call_hangup', this.hangupEvent(call.id, 'answered_elsewhere'));
+
+    return { ok: true, data: undefined };
+  }
+
+  /** Relay an ICE candidate to the other party of a ringing or active call. */
+  async relayIceCandidate(sender: JwtPayload, input: CallSignalInput): Promise<CallOutcome> {
+    const call = await Call.query().findById(input.callId);
+    if (!call || call.state === 'ended' || !this.isParticipant(call, sender)) {
+      return { ok: false, status: 404, error: 'Call not found' };
+    }
+
+    const event: IceCandidateEvent = {
+      callId: call.id,
+      senderId: sender.userId,
+      senderDeviceId: sender.deviceId,
+      ciphertext: input.ciphertext,
+    };
+    getIO().to(this.peerRoom(call, sender.userId)).emit('ice_candidate', event);
+
+    return { ok: true, data: undefined };
+  }
+
+  /**
+   * End a call on behalf of one of its parties.  While ringing, a hangup by
+   * the caller is a cancellation (the callee gets a missed call) and one by
+   * the callee is a decline.
+   */
+  async hangup(user: JwtPayload, callId: string): Promise<CallOutcome<{ reason: CallEndReason }>> {
+    const call = await Call.query().findById(callId);
+    if (!call || !this.isParticipant(call, user)) {
+      return { ok: false, status: 404, error: 'Call not found' };
+    }
+
+    const reason: CallEndReason =
+      call.state !== 'ringing'
+        ? 'hangup'
+        : user.userId === call.caller_id
+          ? 'cancelled'
+          : 'declined';
+
+    const ended = await Call.end(call.id, reason);
+    if (!ended) {
+      return { ok: false, status: 409, error: 'Call has already ended' };
+    }
+
+    getIO()
+      .to([deviceRoom(call.caller_id, call.caller_device_id), this.peerRoom(call, call.caller_id)])
+      .except(deviceRoom(user.userId, user.deviceId))
+      .emit('call_hangup', this.hangupEvent(call.id, reason));
+
+    if (reason === 'cancelled') {
+      await this.notifyMissed(ended, reason);
+    }
+
+    return { ok: true, data: { reason } };
+  }
+
+  /**
+   * End the call a device is taking part in after its socket disconnected.
+   * A callee device that has not answered is not a party yet and is ignored.
+   * A caller dropping while the call still rings counts as a cancel, so the
+   * callee gets a `call_missed` message.
+   */
+  async endForDevice(userId: string, deviceId: string): Promise<void> {
+    const call = await Call.findOngoingForUser(userId);
+    if (!call || !this.isParticipant(call, { userId, deviceId }, true)) return;
+
+    if (call.state === 'ringing' && userId === call.caller_id) {
+      const ended = await Call.end(call.id, 'cancelled');
+      if (ended) {
+        this.emitHangup(ended, 'cancelled');
+        await this.notifyMissed(ended, 'cancelled');
+      }
+      return;
+    }
+
+    await this.endAndNotify(call, 'disconnected');
+  }
+
+  /** Issue time-limited TURN REST API credentials, or `null` if TURN is not configured. */
+  issueTurnCredentials(userId: string): TurnCredentials | null {
+    const { sharedSecret, uris, credentialTtlSeconds } = config.calls.turn;
+    if (!sharedSecret) return null;
+
+    const expiresAt = Math.floor(Date.now() / 1000) + credentialTtlSeconds;
+    const username = `${expiresAt}:${userId}`;
+    const credential = crypto.createHmac('sha1', sharedSecret).update(username).digest('base64');
+
+    return { username, credential, ttl: credentialTtlSeconds, uris };
+  }
+
+  /**
+   * Start the periodic ring-timeout sweep.
+   * Idempotent — calling more than once is a no-op.
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.sweep().catch((error) => {
+        console.error('[CallService] Call sweep failed:', error);
+      });
+    }, SWEEP_INTERVAL_MS);
+  }
+
+  /**
+   * Stop the sweep (useful for graceful shutdown / tests).
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * End calls that rang too long, and active calls neither of whose
+   * devices is still connected (e.g. after an instance went away).
+   * `Call.end` / `Call.endTimedOut` only return the rows this instance
+   * actually ended, so parties are notified once across the cluster.
+   */
+  private async sweep(): Promise<void> {
+    const timedOut = await Call.endTimedOut(config.calls.ringTimeoutMs, 'timeout');
+    for (const call of timedOut) {
+      this.emitHangup(call, 'timeout');
+      await this.notifyMissed(call, 'timeout');
+    }
+
+    const active = await Call.findActive();
+    if (active.length === 0) return;
+
+    // Active calls always have an answering callee device
+    const parties = (call: Call) => [
+      { userId: call.caller_id, deviceId: call.caller_device_id },
+      { userId: call.callee_id, deviceId: call.callee_device_id ?? '' },
+    ];
+    const onlineKeys = await findOnlineClientKeys(active.flatMap(parties));
+    for (const call of active) {
+      const anyOnline = parties(call).some((p) => onlineKeys.has(clientKey(p.userId, p.deviceId)));
+      if (!anyOnline) {
+        await Call.end(call.id, 'disconnected');
+      }
+    }
+  }
+
+  private async endAndNotify(call: Call, reason: CallEndReason): Promise<void> {
+    const ended = await Call.end(call.id, reason);
+    if (ended) {
+      this.emitHangup(ended, reason);
+    }
+  }
+
+  /** Tell both parties' devices that the call is over. */
+  private emitHangup(call: Call, reason: CallEndReason): void {
+    getIO()
+      .to([deviceRoom(call.caller_id, call.caller_device_id), this.peerRoom(call, call.caller_id)])
+      .emit('call_hangup', this.hangupEvent(call.id, reason));
+  }
+
+  /**
+   * Queue a `call_missed` message for every device of the callee — held as
+   * a message request if the callee has not accepted the caller.
+   */
+  private async notifyMissed(call: Call, reason: CallEndReason): Promise<void> {
+    const targets = await GroupService.getDeviceAddresses([call.callee_id]);
+    const event: MissedCallEvent = {
+      callId: call.id,
+      callerId: call.caller_id,
+      callType: call.call_type,
+      reason,
+      timestamp: new Date().toISOString(),
+    };
+
+    await messageDeliveryService.fanOut(
+      call.caller_id,
+      null,
+      null,
+      targets,
+      Buffer.from(JSON.stringify(event), 'utf8'),
+      CALL_MISSED_MESSAGE_TYPE
+    );
+  }
+
+  /**
+   * Whether the device takes part in the call: the caller's device, or —
+   * unless `answeredOnly` — any callee device until one of them answers.
+   */
+  private isParticipant(
+    call: Call,
+    device: { userId: string; deviceId: string },
+    answeredOnly = false
+  ): boolean {
+    if (device.userId === call.caller_id) {
+      return device.deviceId === call.caller_device_id;
+    }
+    if (device.userId !== call.callee_id) return false;
+    if (call.callee_device_id) return device.deviceId === call.callee_device_id;
+    return !answeredOnly;
+  }
+
+  /** Room reaching the other party of `userId`: the caller's device, or the callee's device(s). */
+  private peerRoom(call: Call, userId: string): string {
+    if (userId !== call.caller_id) {
+      return deviceRoom(call.caller_id, call.caller_device_id);
+    }
+    return call.callee_device_id
+      ? deviceRoom(call.callee_id, call.callee_device_id)
+      : call.callee_id;
+  }
+
+  private hangupEvent(callId: string, reason: CallEndReason): CallHangupEvent {
+    return { callId, reason, timestamp: new Date().toISOString() };
+  }
+}
+
+/** Singleton instance for use across the application. */
+export const callService = new CallService();
@@ -1,8 +1,7 @@
 import cron, { ScheduledTask } from 'node-cron';
-import { AuthChallenge, QueuedMessage } from '../models';
-
-/** Number of days after which queued messages are considered stale. */
-const MESSAGE_RETENTION_DAYS = 30;
+import { AuthChallenge, Call, QueuedMessage, SignedPreKey } from '../models';
+import { config } from '../config';
+import { AttachmentService } from './AttachmentService';
 
 /**
  * Centralized cleanup service that schedules periodic maintenance tasks
@@ -10,7 +9,15 @@ const MESSAGE_RETENTION_DAYS = 30;
  *
  * Jobs:
  * 1. Every 10 minutes — purge expired `auth_challenges`.
- * 2. Daily at 03:00 — purge `message_queue` rows older than 30 days.
+ * 2. Every minute — purge `message_queue` rows whose `expires_at` (set
+ *    from the message's TTL, at most `config.delivery.maxTtlSeconds`) has
+ *    passed.  Their attachments are reclaimed by job 4.
+ * 3. Daily at 03:30 — prune each device's signed pre-keys down to the
+ *    newest `config.signedPreKey.retainCount`.
+ * 4. Hourly — delete attachments no longer referenced by any queued
+ *    message, and uploads never attached within a day.
+ * 5. Every minute — delete `calls` rows that ended more than
+ *    `config.calls.endedRetentionSeconds` ago, so no call log builds up.
  */
 export class CleanupService {
   private tasks: ScheduledTask[] = [];
@@ -40,40 +47,79 @@ export class CleanupService {
       })
     );
 
-    // Job 2: Purge stale queued messages daily at 03:00 UTC
+    // Job 2: Purge expired queued messages every minute
+    this.tasks.push(
+      cron.schedule('* * * * *', async () => {
+        try {
+          const deleted = await QueuedMessage.cleanupExpired();
+          if (deleted > 0) {
+            console.log(`[CleanupService] Purged ${deleted} expired queued message(s)`);
+          }
+        } catch (error) {
+          console.error('[CleanupService] Failed to purge expired queued messages:', error);
+        }
+      })
+    );
+
+    // Job 3: Prune superseded signed pre-keys daily at 03:30 UTC
     this.tasks.push(
       cron.schedule(
-        '0 3 * * *',
+        '30 3 * * *',
         async () => {
           try {
-            // 2a — Remove messages whose expires_at has passed
-            const expiredCount = await QueuedMessage.cleanupExpired();
+            const keep = config.signedPreKey.retainCount;
+            const devices = await SignedPreKey.findDevicesWithExcessKeys(keep);
 
-            // 2b — Remove messages older than the retention window
-            const cutoff = new Date();
-            cutoff.setDate(cutoff.getDate() - MESSAGE_RETENTION_DAYS);
-            const staleCount = await QueuedMessage.query()
-              .where('created_at', '<', cutoff)
-              .delete();
+            let total = 0;
+            for (const device of devices) {
+              total += await SignedPreKey.deleteOldKeys(device.user_id, device.device_id, keep);
+            }
 
-            const total = expiredCount + staleCount;
             if (total > 0) {
               console.log(
-                `[CleanupService] Purged ${total} queued message(s) ` +
-                  `(${expiredCount} expired, ${staleCount} older than ${MESSAGE_RETENTION_DAYS}d)`
+                `[CleanupService] Pruned ${total} old signed pre-key(s) across ${devices.length} device(s)`
               );
             }
           } catch (error) {
-            console.error('[CleanupService] Failed to purge stale queued messages:', error);
+            console.error('[CleanupService] Failed to prune old signed pre-keys:', error);
           }
         },
         { timezone: 'UTC' }
       )
     );
 
+    // Job 4: Garbage-collect unreferenced attachments hourly
+    this.tasks.push(
+      cron.schedule('15 * * * *', async () => {
+        try {
+          const purged = await AttachmentService.collectGarbage();
+          if (purged > 0) {
+            console.log(`[CleanupService] Deleted ${purged} unreferenced attachment(s)`);
+          }
+        } catch (error) {
+          console.error('[CleanupService] Failed to garbage-collect attachments:', error);
+        }
+      })
+    );
+
+    // Job 5: Purge ended calls every minute
+    this.tasks.push(
+      cron.schedule('* * * * *', async () => {
+        try {
+          const deleted = await Call.deleteEndedBefore(config.calls.endedRetentionSeconds * 1000);
+          if (deleted > 0) {
+            console.log(`[CleanupService] Purged ${deleted} ended call(s)`);
+          }
+        } catch (error) {
+          console.error('[CleanupService] Failed to purge ended calls:', error);
+        }
+      })
+    );
+
     this.started = true;
     console.log(
-      'CleanupService started (auth challenges: every 10 min, stale messages: daily 03:00 UTC)'
+      'CleanupService started (auth challenges: every 10 min, expired messages: every minute, ' +
+        'signed pre-keys: daily 03:30 UTC, attachments: hourly, ended calls: every minute)'
     );
   }
 
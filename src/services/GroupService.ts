@@ -0,0 +1,100 @@
+import { Device, GroupMember } from '../models';
+import { GroupRole } from '../types';
+import { messageDeliveryService, DeviceAddress, DeliveryResult } from './MessageDeliveryService';
+
+/** `message_type` of server-generated group membership events. */
+export const GROUP_EVENT_MESSAGE_TYPE = 'group_event';
+
+export type GroupEventKind =
+  | 'group_created'
+  | 'members_added'
+  | 'member_removed'
+  | 'member_left'
+  | 'role_changed';
+
+/**
+ * Server-generated system event describing a membership change.  Delivered
+ * as a queued message of type `group_event` whose payload is this object as
+ * UTF-8 JSON (not encrypted — it carries no message content).  Clients
+ * should rotate their sender key whenever a member leaves or is removed.
+ */
+export interface GroupEvent {
+  event: GroupEventKind;
+  groupId: string;
+  actorId: string;
+  userIds: string[];
+  role?: GroupRole;
+  timestamp: string;
+}
+
+export class GroupService {
+  /**
+   * Every registered device of the given users, optionally excluding the
+   * device that triggered the fan-out.
+   */
+  static async getDeviceAddresses(
+    userIds: string[],
+    exclude?: DeviceAddress
+  ): Promise<DeviceAddress[]> {
+    const devices = await Device.findByUserIds(userIds);
+
+    return devices
+      .filter((d) => !exclude || d.user_id !== exclude.userId || d.device_id !== exclude.deviceId)
+      .map((d) => ({ userId: d.user_id, deviceId: d.device_id }));
+  }
+
+  /**
+   * Fan a single sender-key ciphertext out to every member device except
+   * the sending device.
+   */
+  static async sendGroupMessage(
+    groupId: string,
+    sender: DeviceAddress,
+    payload: Buffer,
+    type: string
+  ): Promise<DeliveryResult> {
+    const members = await GroupMember.findByGroupId(groupId);
+    const targets = await this.getDeviceAddresses(
+      members.map((m) => m.user_id),
+      sender
+    );
+
+    return messageDeliveryService.fanOut(
+      sender.userId,
+      sender.deviceId,
+      groupId,
+      targets,
+      payload,
+      type
+    );
+  }
+
+  /**
+   * Notify current members — plus any users who were just removed — of a
+   * membership change through the regular queue + socket delivery path.
+   */
+  static async publishEvent(
+    actor: DeviceAddress,
+    event: Omit<GroupEvent, 'actorId' | 'timestamp'>,
+    formerMemberIds: string[] = []
+  ): Promise<void> {
+    const members = await GroupMember.findByGroupId(event.groupId);
+    const recipients = [...new Set([...members.map((m) => m.user_id), ...formerMemberIds])];
+    const targets = await this.getDeviceAddresses(recipients, actor);
+
+    const payload: GroupEvent = {
+      ...event,
+      actorId: actor.userId,
+      timestamp: new Date().toISOString(),
+    };
+
+    await messageDeliveryService.fanOut(
+      actor.userId,
+      null,
+      event.groupId,
+      targets,
+      Buffer.from(JSON.stringify(payload), 'utf8'),
+      GROUP_EVENT_MESSAGE_TYPE
+    );
+  }
+}
@@ -0,0 +1,162 @@
+import {
+  User,
+  Device,
+  SignedPreKey,
+  KyberPreKey,
+  KyberLastResortPreKey,
+  IdentityKeyHistory,
+  Conversation,
+} from '../models';
+import { verifySignature } from '../utils/crypto';
+import { revokeDeviceSessions } from '../socket';
+import { GroupService } from './GroupService';
+import { messageDeliveryService } from './MessageDeliveryService';
+
+/** `message_type` of server-generated identity-change notifications. */
+export const IDENTITY_CHANGED_MESSAGE_TYPE = 'identity_changed';
+
+/** Peers who exchanged messages with the user within this window are notified. */
+const RECENT_CONTACT_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Server-generated notification that a user's identity key changed.
+ * Delivered as a queued message of type `identity_changed` whose payload is
+ * this object as UTF-8 JSON.  Clients should mark existing sessions with the
+ * user as stale and re-verify the new key (safety number) before trusting it.
+ */
+export interface IdentityChangedEvent {
+  userId: string;
+  identityPublicKey: string;
+  timestamp: string;
+}
+
+export type RotateIdentityOutcome =
+  | { ok: true; user: User; invalidatedDevices: string[] }
+  | { ok: false; status: number; error: string };
+
+export class IdentityService {
+  /**
+   * Replace a user's identity key.  `signature` must be the old identity
+   * key's Ed25519 signature over the new key (its base64 string).
+   *
+   * On success the rotation is recorded in `identity_key_history`, the
+   * rotating device adopts the new key (its signed and Kyber pre-keys,
+   * which were signed by the old key, are discarded), every other device
+   * still on the old key is removed, and recent contacts receive an
+   * `identity_changed` event.  If another rotation replaced the old key in
+   * the meantime, nothing changes and a 409 is returned.
+   */
+  static async rotateIdentityKey(
+    userId: string,
+    deviceId: string,
+    newPublicKey: string,
+    registrationId: number,
+    signature: string
+  ): Promise<RotateIdentityOutcome> {
+    const user = await User.query().findById(userId);
+    if (!user) {
+      return { ok: false, status: 404, error: 'User not found' };
+    }
+
+    const oldPublicKey = user.identity_public_key;
+    if (newPublicKey === oldPublicKey) {
+      return { ok: false, status: 400, error: 'New identity key matches the current key' };
+    }
+
+    if (!verifySignature(oldPublicKey, newPublicKey, signature)) {
+      return {
+        ok: false,
+        status: 401,
+        error: 'Signature by the current identity key over the new key is invalid',
+      };
+    }
+
+    const rotated = await User.transaction(async (trx) => {
+      // Lock the user row and make sure no concurrent rotation replaced the
+      // key the signature was checked against
+      const current = await User.query(trx).findById(userId).forUpdate();
+      if (!current || current.identity_public_key !== oldPublicKey) {
+        return null;
+      }
+
+      await IdentityKeyHistory.query(trx).insert({
+        user_id: userId,
+        old_public_key: oldPublicKey,
+        new_public_key: newPublicKey,
+        signature,
+        rotated_by_device_id: deviceId,
+      });
+
+      const updated = await User.query(trx).patchAndFetchById(userId, {
+        identity_public_key: newPublicKey,
+        registration_id: registrationId,
+      });
+
+      const stale = await Device.query(trx)
+        .where({ user_id: userId, identity_public_key: oldPublicKey })
+        .whereNot({ device_id: deviceId });
+      if (stale.length > 0) {
+        await Device.query(trx)
+          .delete()
+          .whereIn(
+            'id',
+            stale.map((d) => d.id)
+          );
+      }
+
+      await Device.query(trx)
+        .patch({ identity_public_key: newPublicKey, registration_id: registrationId })
+        .where({ user_id: userId, device_id: deviceId });
+      for (const model of [SignedPreKey, KyberPreKey, KyberLastResortPreKey]) {
+        await model.query(trx).delete().where({ user_id: userId, device_id: deviceId });
+      }
+
+      return { updated, invalidatedDevices: stale.map((d) => d.device_id) };
+    });
+
+    if (!rotated) {
+      return {
+        ok: false,
+        status: 409,
+        error: 'Identity key was changed concurrently — sign the new key with the current one',
+      };
+    }
+    const { updated, invalidatedDevices } = rotated;
+
+    // Drop live connections of the removed devices (REST calls already 401)
+    for (const removed of invalidatedDevices) {
+      revokeDeviceSessions(userId, removed, 'identity_key_changed');
+    }
+
+    await this.notifyContacts(userId, deviceId, newPublicKey);
+
+    return { ok: true, user: updated, invalidatedDevices };
+  }
+
+  /** Send an `identity_changed` event to every device of the user's recent contacts. */
+  private static async notifyContacts(
+    userId: string,
+    deviceId: string,
+    identityPublicKey: string
+  ): Promise<void> {
+    const since = new Date(Date.now() - RECENT_CONTACT_WINDOW_MS);
+    const peerIds = await Conversation.findRecentPeerIds(userId, since);
+    if (peerIds.length === 0) return;
+
+    const targets = await GroupService.getDeviceAddresses(peerIds);
+    const event: IdentityChangedEvent = {
+      userId,
+      identityPublicKey,
+      timestamp: new Date().toISOString(),
+    };
+
+    await messageDeliveryService.fanOut(
+      userId,
+      deviceId,
+      null,
+      targets,
+      Buffer.from(JSON.stringify(event), 'utf8'),
+      IDENTITY_CHANGED_MESSAGE_TYPE
+    );
+  }
+}
@@ -1,31 +1,80 @@
-import { User, SignedPreKey, OneTimePreKey } from '../models';
-import { PreKeyBundle } from '../types';
+import {
+  User,
+  Device,
+  SignedPreKey,
+  OneTimePreKey,
+  LastResortPreKey,
+  KyberPreKey,
+  KyberLastResortPreKey,
+  Block,
+} from '../models';
+import { DevicePreKeyBundle, PreKeyBundle, SignedPreKeyStatus } from '../types';
 import { config } from '../config';
+import { verifySignature } from '../utils/crypto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export class KeyBundleService {
   /**
-   * Fetches a pre-key bundle for establishing an X3DH session with a user.
-   * This consumes one one-time pre-key if available.
+   * Fetches pre-key bundles for establishing an X3DH session with every
+   * device of a user.  This consumes one one-time pre-key per device if
+   * available.  Devices that have not uploaded a signed pre-key yet are
+   * skipped; `null` is returned when no device is reachable.
+   *
+   * A `requesterId` the user has blocked also gets `null` — indistinguishable
+   * from a user without keys — and consumes no pre-keys, so blocked users
+   * cannot start new sessions.
    */
-  static async getPreKeyBundle(userId: string): Promise<PreKeyBundle | null> {
+  static async getPreKeyBundle(userId: string, requesterId?: string): Promise<PreKeyBundle | null> {
     const user = await User.query().findById(userId);
     if (!user) {
       return null;
     }
 
-    const signedPreKey = await SignedPreKey.findLatestByUserId(userId);
-    if (!signedPreKey) {
+    if (requesterId && (await Block.isBlocked(userId, requesterId))) {
       return null;
     }
 
-    // Consume one one-time pre-key (if available)
-    const oneTimePreKey = await OneTimePreKey.consumeOne(userId);
+    const devices = await Device.findByUserId(userId);
+    const deviceBundles: DevicePreKeyBundle[] = [];
+
+    for (const device of devices) {
+      const bundle = await this.getDeviceBundle(device);
+      if (bundle) {
+        deviceBundles.push(bundle);
+      }
+    }
 
-    const bundle: PreKeyBundle = {
+    if (deviceBundles.length === 0) {
+      return null;
+    }
+
+    return {
       user_id: user.id,
       username: user.username,
-      registration_id: user.registration_id,
-      identity_public_key: user.identity_public_key,
+      devices: deviceBundles,
+    };
+  }
+
+  /**
+   * Builds the bundle for a single device, or `null` if it has no signed
+   * pre-key.
+   */
+  private static async getDeviceBundle(device: Device): Promise<DevicePreKeyBundle | null> {
+    const signedPreKey = await SignedPreKey.findLatestByDevice(device.user_id, device.device_id);
+    if (!signedPreKey) {
+      return null;
+    }
+
+    // Consume one one-time pre-key, falling back to the last-resort key
+    const oneTimePreKey = await OneTimePreKey.consumeOne(device.user_id, device.device_id);
+    const ecKey =
+      oneTimePreKey ?? (await LastResortPreKey.findByDevice(device.user_id, device.device_id));
+
+    const bundle: DevicePreKeyBundle = {
+      device_id: device.device_id,
+      registration_id: device.registration_id,
+      identity_public_key: device.identity_public_key,
       signed_pre_key: {
         key_id: signedPreKey.key_id,
         public_key: signedPreKey.public_key,
@@ -33,10 +82,25 @@ export class KeyBundleService {
       },
     };
 
-    if (oneTimePreKey) {
+    if (ecKey) {
       bundle.one_time_pre_key = {
-        key_id: oneTimePreKey.key_id,
-        public_key: oneTimePreKey.public_key,
+        key_id: ecKey.key_id,
+        public_key: ecKey.public_key,
+        last_resort: !oneTimePreKey,
+      };
+    }
+
+    // Consume one Kyber pre-key, falling back to the last-resort key
+    const kyberPreKey = await KyberPreKey.consumeOne(device.user_id, device.device_id);
+    const kyberKey =
+      kyberPreKey ?? (await KyberLastResortPreKey.findByDevice(device.user_id, device.device_id));
+
+    if (kyberKey) {
+      bundle.kyber_pre_key = {
+        key_id: kyberKey.key_id,
+        public_key: kyberKey.public_key,
+        signature: kyberKey.signature,
+        last_resort: !kyberPreKey,
       };
     }
 
@@ -44,22 +108,82 @@ export class KeyBundleService {
   }
 
   /**
-   * Gets the count of remaining one-time pre-keys for a user.
+   * Gets the count of remaining one-time pre-keys for a device.
    * Clients should upload more keys when this count is low.
    */
-  static async getOneTimePreKeyCount(userId: string): Promise<number> {
-    return OneTimePreKey.countByUserId(userId);
+  static async getOneTimePreKeyCount(userId: string, deviceId: string): Promise<number> {
+    return OneTimePreKey.countByDevice(userId, deviceId);
   }
 
   /**
-   * Checks if a user needs to upload more one-time pre-keys.
+   * Checks if a device needs to upload more one-time pre-keys.
    * Returns true if count is below threshold.
    */
   static async needsMorePreKeys(
     userId: string,
+    deviceId: string,
     threshold: number = config.lowKeyThreshold
   ): Promise<boolean> {
-    const count = await this.getOneTimePreKeyCount(userId);
+    const count = await this.getOneTimePreKeyCount(userId, deviceId);
     return count < threshold;
   }
+
+  /**
+   * Gets the count of remaining one-time Kyber pre-keys for a device.
+   */
+  static async getKyberPreKeyCount(userId: string, deviceId: string): Promise<number> {
+    return KyberPreKey.countByDevice(userId, deviceId);
+  }
+
+  /**
+   * Checks signed pre-key uploads (Curve25519 or Kyber) against the
+   * uploading device's identity key — the one its bundles advertise.  Each
+   * signature must be that key's Ed25519 signature over the pre-key's base64
+   * public key string.  Returns `false` if any key fails.
+   */
+  static async verifyPreKeySignatures(
+    userId: string,
+    deviceId: string,
+    keys: Array<{ public_key: string; signature: string }>
+  ): Promise<boolean> {
+    const device = await Device.findByUserIdAndDeviceId(userId, deviceId);
+    if (!device) {
+      return false;
+    }
+    return keys.every((k) =>
+      verifySignature(device.identity_public_key, k.public_key, k.signature)
+    );
+  }
+
+  /**
+   * Reports the age of a device's current signed pre-key against the
+   * `config.signedPreKey.maxAgeDays` rotation policy.  A device without a
+   * signed pre-key always needs to upload one.
+   */
+  static async getSignedPreKeyStatus(
+    userId: string,
+    deviceId: string
+  ): Promise<SignedPreKeyStatus> {
+    const maxAgeDays = config.signedPreKey.maxAgeDays;
+    const current = await SignedPreKey.findLatestByDevice(userId, deviceId);
+
+    if (!current) {
+      return {
+        key_id: null,
+        created_at: null,
+        max_age_days: maxAgeDays,
+        rotate_by: null,
+        needs_rotation: true,
+      };
+    }
+
+    const rotateBy = new Date(new Date(current.created_at).getTime() + maxAgeDays * DAY_MS);
+    return {
+      key_id: current.key_id,
+      created_at: current.created_at,
+      max_age_days: maxAgeDays,
+      rotate_by: rotateBy,
+      needs_rotation: rotateBy.getTime() <= Date.now(),
+    };
+  }
 }
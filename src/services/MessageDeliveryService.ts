@@ -0,0 +1,453 @@
+import { v4 as uuidv4 } from 'uuid';
+import { QueuedMessage, Attachment, Conversation } from '../models';
+import { config } from '../config';
+import { getIO, deviceRoom, clientKey, findOnlineClientKeys } from '../socket';
+import { pushService } from './PushService';
+import { AttachmentService } from './AttachmentService';
+
+/** One ciphertext addressed to a single recipient device. */
+export interface DeviceEnvelope {
+  deviceId: string;
+  ciphertext: string;
+  type: string;
+}
+
+/** A recipient device addressed by a fan-out (group message or system event). */
+export interface DeviceAddress {
+  userId: string;
+  deviceId: string;
+}
+
+export interface DeliveryResult {
+  /** `true` when every recipient device was online and received a push. */
+  delivered: boolean;
+  /** Server-assigned ID shared by every device copy of the message. */
+  messageId: string;
+  /** `true` when the message is held back until its `deliverAt` time. */
+  scheduled: boolean;
+}
+
+/** Optional extras of a one-to-one `send`. */
+export interface SendOptions {
+  /** Shared by every copy and referenced once per copy. */
+  attachments?: Attachment[];
+  /** Requested lifetime; capped at (and defaulting to) `config.delivery.maxTtlSeconds`. */
+  ttlSeconds?: number;
+  /** Hold the message back until this time (a `deliver_at` column value). */
+  deliverAt?: Date;
+  /** Hold the message as a request until the recipient accepts the sender. */
+  isRequest?: boolean;
+}
+
+/** Shape of the `new_message` Socket.io event. */
+export interface NewMessageEvent {
+  id: string;
+  /** `null` for sealed-sender messages — the sender is inside the ciphertext. */
+  senderId: string | null;
+  senderDeviceId: string | null;
+  groupId: string | null;
+  ciphertext: string;
+  type: string;
+  attachments: string[];
+  timestamp: string;
+  /** When the server drops the message if it is still undelivered. */
+  expiresAt: string;
+}
+
+/** Shape of the `message_retracted` Socket.io event. */
+export interface MessageRetractedEvent {
+  id: string;
+  senderId: string;
+  groupId: string | null;
+  timestamp: string;
+}
+
+export interface RetractResult {
+  /** Number of queued device copies removed. */
+  retracted: number;
+  /**
+   * `true` if any copy had already reached its device: pushed, read through
+   * the offline fetch, or acknowledged.
+   */
+  delivered: boolean;
+}
+
+/** A queue row about to be written, before the server assigns its ID. */
+interface PendingCopy {
+  recipient_id: string;
+  recipient_device_id: string;
+  encrypted_payload: Buffer;
+  message_type: string;
+  /** Held as a message request — neither pushed nor woken for. */
+  is_request: boolean;
+}
+
+interface PendingMessage {
+  senderId: string | null;
+  senderDeviceId: string | null;
+  groupId?: string;
+  attachments?: Attachment[];
+  ttlSeconds?: number;
+  deliverAt?: Date;
+  copies: PendingCopy[];
+}
+
+/**
+ * Persist-first message delivery with client acknowledgements.
+ *
+ * Every message is written to `message_queue` before anything is pushed.
+ * Online devices then receive a `new_message` event carrying the message ID,
+ * and the row is only removed once that device acknowledges it with a
+ * `message_ack` socket event (or via `DELETE /api/messages/batch`).
+ *
+ * Pushed-but-unacknowledged messages are re-emitted when the device
+ * reconnects, and periodically once `config.delivery.ackTimeoutMs` has
+ * elapsed, up to `config.delivery.maxAttempts` pushes.  After that they
+ * remain available through `GET /api/messages/offline`.
+ *
+ * Scheduled messages are persisted with a future `deliver_at` and stay
+ * invisible to the recipient until `releaseScheduled()` — driven by the
+ * `MessageSchedulerService` — pushes them out.
+ *
+ * Message requests (first contact from a sender the recipient has not
+ * accepted) are persisted with `is_request` set and are neither pushed nor
+ * woken for; `releaseRequests()` turns them into regular messages once the
+ * recipient accepts the sender.
+ */
+export class MessageDeliveryService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * Queue one copy of a message per recipient device, then push the copies
+   * whose device is currently connected.  Offline devices get a
+   * content-free wake-up push instead.  Sealed-sender messages pass `null`
+   * for the sender.  Copies still queued after `ttlSeconds` (counted from
+   * `deliverAt` for scheduled messages) are dropped.
+   */
+  async send(
+    senderId: string | null,
+    senderDeviceId: string | null,
+    recipientId: string,
+    envelopes: DeviceEnvelope[],
+    options: SendOptions = {}
+  ): Promise<DeliveryResult> {
+    const { isRequest = false, ...extras } = options;
+    return this.dispatch({
+      senderId,
+      senderDeviceId,
+      ...extras,
+      copies: envelopes.map((envelope) => ({
+        recipient_id: recipientId,
+        recipient_device_id: envelope.deviceId,
+        encrypted_payload: Buffer.from(envelope.ciphertext, 'base64'),
+        message_type: envelope.type,
+        is_request: isRequest,
+      })),
+    });
+  }
+
+  /**
+   * Fan a single payload (e.g. a sender-key message or a system event) out
+   * to every addressed device.  When `groupId` is given each copy is tagged
+   * with it.  Group copies are delivered normally — only members can fan
+   * out to a group, and membership events must reach everyone to trigger
+   * sender-key rotation.  Other fan-outs (system events such as missed
+   * calls) are held as message requests for users who have not accepted
+   * `senderId`, so they cannot reach strangers any more than a direct
+   * message can.
+   */
+  async fanOut(
+    senderId: string,
+    senderDeviceId: string | null,
+    groupId: string | null,
+    targets: DeviceAddress[],
+    payload: Buffer,
+    type: string
+  ): Promise<DeliveryResult> {
+    const recipientIds = [...new Set(targets.map((target) => target.userId))];
+    const accepted = new Set(
+      groupId
+        ? recipientIds
+        : await Conversation.findUsersWithPeer(
+            recipientIds.filter((id) => id !== senderId),
+            senderId
+          )
+    );
+
+    return this.dispatch({
+      senderId,
+      senderDeviceId,
+      groupId: groupId ?? undefined,
+      copies: targets.map((target) => ({
+        recipient_id: target.userId,
+        recipient_device_id: target.deviceId,
+        encrypted_payload: payload,
+        message_type: type,
+        is_request: target.userId !== senderId && !accepted.has(target.userId),
+      })),
+    });
+  }
+
+  /**
+   * Persist every copy under one shared message ID, then — unless it is
+   * scheduled for later or held as a message request — push the online
+   * copies and wake the offline devices.
+   */
+  private async dispatch(message: PendingMessage): Promise<DeliveryResult> {
+    const messageId = uuidv4();
+
+    if (message.copies.length === 0) {
+      return { delivered: true, messageId, scheduled: false };
+    }
+
+    const attachments = message.attachments ?? [];
+    const fileReference =
+      attachments.length > 0 ? JSON.stringify(attachments.map((a) => a.id)) : null;
+    const ttlSeconds = Math.min(
+      message.ttlSeconds ?? config.delivery.maxTtlSeconds,
+      config.delivery.maxTtlSeconds
+    );
+    const deliverAt =
+      message.deliverAt && message.deliverAt.getTime() > Date.now() ? message.deliverAt : null;
+    const scheduled = deliverAt !== null;
+    const expiresAt = new Date((deliverAt?.getTime() ?? Date.now()) + ttlSeconds * 1000);
+
+    const rows = await QueuedMessage.query().insertAndFetch(
+      message.copies.map((copy) => ({
+        ...copy,
+        message_id: messageId,
+        sender_id: message.senderId,
+        sender_device_id: message.senderDeviceId,
+        group_id: message.groupId ?? null,
+        file_reference: fileReference,
+        expires_at: expiresAt,
+        deliver_at: deliverAt,
+        copy_count: message.copies.length,
+      }))
+    );
+    await Attachment.link(
+      messageId,
+      attachments.map((a) => a.id),
+      rows.length
+    );
+
+    const visible = rows.filter((row) => !row.is_request);
+    if (scheduled || visible.length === 0) {
+      return { delivered: false, messageId, scheduled };
+    }
+
+    const delivered = (await this.deliver(visible)) && visible.length === rows.length;
+    return { delivered, messageId, scheduled };
+  }
+
+  /**
+   * Push rows to their online devices and wake the offline ones.
+   * Returns `true` if every row could be pushed.
+   */
+  private async deliver(rows: QueuedMessage[]): Promise<boolean> {
+    const online = await this.filterOnline(rows);
+    await this.emit(online);
+
+    // Fire-and-forget — push retries must not hold up the caller
+    const offlineByUser = new Map<string, string[]>();
+    for (const row of rows) {
+      if (online.includes(row)) continue;
+      const deviceIds = offlineByUser.get(row.recipient_id) ?? [];
+      deviceIds.push(row.recipient_device_id);
+      offlineByUser.set(row.recipient_id, deviceIds);
+    }
+    for (const [userId, deviceIds] of offlineByUser) {
+      pushService.wakeDevices(userId, deviceIds).catch((error) => {
+        console.error('[MessageDeliveryService] Wake-up push failed:', error);
+      });
+    }
+
+    return online.length === rows.length;
+  }
+
+  /**
+   * Release every scheduled message whose `deliver_at` has passed: make it
+   * visible to the recipient and push it like a freshly sent message.
+   * Safe to run on several instances at once — each row is claimed by
+   * exactly one.  Returns the number of device copies released.
+   */
+  async releaseScheduled(): Promise<number> {
+    const due = await QueuedMessage.claimDueScheduled();
+    // Due requests become visible only once their sender is accepted
+    await this.deliver(due.filter((row) => !row.is_request));
+    return due.length;
+  }
+
+  /**
+   * Cancel a scheduled message of `senderId` that has not been released
+   * yet and release its attachments.  Returns `false` if there was no such
+   * pending message.
+   */
+  async cancelScheduled(senderId: string, messageId: string): Promise<boolean> {
+    const cancelled = await QueuedMessage.cancelScheduled(messageId, senderId);
+    if (cancelled === 0) return false;
+
+    await AttachmentService.release([messageId]);
+    return true;
+  }
+
+  /**
+   * Turn the pending message requests from `senderIds` to `userId` into
+   * regular messages and push them like freshly sent ones (scheduled ones
+   * keep waiting for their `deliver_at`).  Returns the number of device
+   * copies released.
+   */
+  async releaseRequests(userId: string, senderIds: string[]): Promise<number> {
+    const released = await QueuedMessage.releaseRequests(userId, senderIds);
+    await this.deliver(released.filter((row) => !row.deliver_at));
+    return released.length;
+  }
+
+  /**
+   * Delete the pending message requests from `senderIds` to `userId` and
+   * release their attachments.  Returns the number of messages deleted.
+   */
+  async deleteRequests(userId: string, senderIds: string[]): Promise<number> {
+    const messageIds = await QueuedMessage.deleteRequests(userId, senderIds);
+    if (messageIds.length > 0) {
+      await AttachmentService.release(messageIds);
+    }
+    return messageIds.length;
+  }
+
+  /**
+   * Remove the acknowledged messages addressed to the given device and
+   * release their attachments.  Returns the number of rows deleted.
+   */
+  async acknowledge(userId: string, deviceId: string, messageIds: string[]): Promise<number> {
+    const deleted = await QueuedMessage.acknowledge(userId, deviceId, messageIds);
+    if (deleted > 0) {
+      await AttachmentService.release(messageIds);
+    }
+    return deleted;
+  }
+
+  /**
+   * Take back the still-queued copies of a message on behalf of its sender,
+   * release its attachments and tell the recipients' online devices with a
+   * `message_retracted` event.  Returns `null` if nothing was left to
+   * retract (unknown ID, not the sender, or already acknowledged everywhere).
+   */
+  async retract(senderId: string, messageId: string): Promise<RetractResult | null> {
+    const rows = await QueuedMessage.retract(messageId, senderId);
+    if (rows.length === 0) return null;
+
+    await AttachmentService.release([messageId]);
+
+    const event: MessageRetractedEvent = {
+      id: messageId,
+      senderId,
+      groupId: rows[0].group_id || null,
+      timestamp: new Date().toISOString(),
+    };
+    const recipients = [...new Set(rows.map((row) => row.recipient_id))];
+    getIO().to(recipients).emit('message_retracted', event);
+
+    // Reached a device if a copy was pushed or fetched, or is already gone
+    // because a device acknowledged it
+    return {
+      retracted: rows.length,
+      delivered:
+        rows.length < rows[0].copy_count ||
+        rows.some((row) => !!row.last_emitted_at || !!row.fetched_at),
+    };
+  }
+
+  /**
+   * Re-emit every pushed-but-unacknowledged message for a device, e.g.
+   * after its socket reconnects.
+   */
+  async redeliver(userId: string, deviceId: string): Promise<void> {
+    const pending = await QueuedMessage.findUnackedByDevice(userId, deviceId);
+    await this.emit(pending);
+  }
+
+  /**
+   * Start the periodic redelivery sweep.
+   * Idempotent — calling more than once is a no-op.
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.sweep().catch((error) => {
+        console.error('[MessageDeliveryService] Redelivery sweep failed:', error);
+      });
+    }, config.delivery.ackTimeoutMs);
+  }
+
+  /**
+   * Stop the redelivery sweep (useful for graceful shutdown / tests).
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Re-emit timed-out messages whose recipient device is online. */
+  private async sweep(): Promise<void> {
+    const timedOut = await QueuedMessage.findUnacked(
+      config.delivery.ackTimeoutMs,
+      config.delivery.maxAttempts
+    );
+
+    const online = await this.filterOnline(timedOut);
+
+    // Every instance runs this sweep — only re-emit the rows this one claims
+    const claimedIds = new Set(
+      await QueuedMessage.claimForRedelivery(
+        online.map((row) => row.id),
+        config.delivery.ackTimeoutMs
+      )
+    );
+    const claimed = online.filter((row) => claimedIds.has(row.id));
+
+    if (claimed.length > 0) {
+      console.log(`[MessageDeliveryService] Redelivering ${claimed.length} unacked message(s)`);
+    }
+    await this.emit(claimed);
+  }
+
+  /** Rows whose recipient device is connected to any server instance. */
+  private async filterOnline(rows: QueuedMessage[]): Promise<QueuedMessage[]> {
+    const onlineKeys = await findOnlineClientKeys(
+      rows.map((row) => ({ userId: row.recipient_id, deviceId: row.recipient_device_id }))
+    );
+    return rows.filter((row) =>
+      onlineKeys.has(clientKey(row.recipient_id, row.recipient_device_id))
+    );
+  }
+
+  /** Push queued rows to their device rooms and record the attempt. */
+  private async emit(rows: QueuedMessage[]): Promise<void> {
+    if (rows.length === 0) return;
+
+    const io = getIO();
+    for (const row of rows) {
+      const event: NewMessageEvent = {
+        id: row.message_id,
+        senderId: row.sender_id ?? null,
+        senderDeviceId: row.sender_device_id || null,
+        groupId: row.group_id || null,
+        ciphertext: row.encrypted_payload.toString('base64'),
+        type: row.message_type,
+        attachments: row.attachmentIds,
+        timestamp: new Date(row.created_at).toISOString(),
+        expiresAt: new Date(row.expires_at).toISOString(),
+      };
+      io.to(deviceRoom(row.recipient_id, row.recipient_device_id)).emit('new_message', event);
+    }
+
+    await QueuedMessage.markEmitted(rows.map((row) => row.id));
+  }
+}
+
+/** Singleton instance for use across the application. */
+export const messageDeliveryService = new MessageDeliveryService();
@@ -0,0 +1,66 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { messageDeliveryService } from './MessageDeliveryService';
+
+/**
+ * Releases scheduled (`deliverAt`) messages once they are due, using
+ * `node-cron` like the `CleanupService`.
+ *
+ * Jobs:
+ * 1. Every 10 seconds — clear `deliver_at` on due `message_queue` rows,
+ *    push them to online recipient devices and wake the offline ones.
+ */
+export class MessageSchedulerService {
+  private tasks: ScheduledTask[] = [];
+  private started = false;
+  private running = false;
+
+  /**
+   * Register and start the cron job.
+   * Idempotent — calling more than once is a no-op.
+   */
+  start(): void {
+    if (this.started) {
+      console.warn('[MessageSchedulerService] Already started — skipping duplicate initialisation');
+      return;
+    }
+
+    // Job 1: Release due scheduled messages every 10 seconds
+    this.tasks.push(
+      cron.schedule('*/10 * * * * *', async () => {
+        // Skip this tick if the previous run is still pushing a large batch
+        if (this.running) return;
+        this.running = true;
+        try {
+          const released = await messageDeliveryService.releaseScheduled();
+          if (released > 0) {
+            console.log(
+              `[MessageSchedulerService] Released ${released} scheduled message copy(ies)`
+            );
+          }
+        } catch (error) {
+          console.error('[MessageSchedulerService] Failed to release scheduled messages:', error);
+        } finally {
+          this.running = false;
+        }
+      })
+    );
+
+    this.started = true;
+    console.log('MessageSchedulerService started (scheduled messages: every 10 s)');
+  }
+
+  /**
+   * Gracefully stop the scheduled task (useful for tests or shutdown).
+   */
+  stop(): void {
+    for (const task of this.tasks) {
+      task.stop();
+    }
+    this.tasks = [];
+    this.started = false;
+    console.log('[MessageSchedulerService] All scheduled tasks stopped');
+  }
+}
+
+/** Singleton instance for use across the application. */
+export const messageSchedulerService = new MessageSchedulerService();
@@ -0,0 +1,77 @@
+import { Block, Conversation, Device, User } from '../models';
+import { getIO, presenceRoom, findOnlineDevicesForUser } from '../socket';
+
+/** Shape of the `presence` Socket.io event (and of subscription snapshots). */
+export interface PresenceEvent {
+  userId: string;
+  status: 'online' | 'offline';
+  /** Most recent `last_seen_at` across the user's devices, if any. */
+  lastSeenAt: string | null;
+}
+
+/**
+ * Opt-in presence.  A socket subscribes to the users it wants to follow
+ * (`presence_subscribe`) and joins a `presence:<userId>` room for each one
+ * it is allowed to see; `presence` events are published to that room
+ * whenever one of the user's devices connects or disconnects.
+ *
+ * Each user's `presence_visibility` decides who is allowed: `everyone`,
+ * `contacts` (users whose messages they have accepted) or `nobody`.  Users
+ * they have blocked never are.  A user always sees their own presence.
+ */
+export class PresenceService {
+  /** Of `targetIds`, the users whose presence `viewerId` may see. */
+  static async filterVisible(viewerId: string, targetIds: string[]): Promise<string[]> {
+    if (targetIds.length === 0) return [];
+
+    const users = await User.query().whereIn('id', targetIds).select('id', 'presence_visibility');
+
+    const contactsOnly = users
+      .filter((u) => u.id !== viewerId && u.presence_visibility === 'contacts')
+      .map((u) => u.id);
+    const contacts = new Set(await Conversation.findUsersWithPeer(contactsOnly, viewerId));
+    const blockers = new Set(await Block.findBlockersOf(targetIds, viewerId));
+
+    return users
+      .filter(
+        (u) =>
+          u.id === viewerId ||
+          (!blockers.has(u.id) &&
+            (u.presence_visibility === 'everyone' ||
+              (u.presence_visibility === 'contacts' && contacts.has(u.id))))
+      )
+      .map((u) => u.id);
+  }
+
+  /** Current presence of a user, across every server instance. */
+  static async getPresence(userId: string): Promise<PresenceEvent> {
+    const online = await findOnlineDevicesForUser(userId);
+    const devices = await Device.findByUserId(userId);
+
+    const lastSeen = devices.reduce<number | null>((latest, device) => {
+      const seen = new Date(device.last_seen_at).getTime();
+      return latest === null || seen > latest ? seen : latest;
+    }, null);
+
+    return {
+      userId,
+      status: online.length > 0 ? 'online' : 'offline',
+      lastSeenAt: lastSeen === null ? null : new Date(lastSeen).toISOString(),
+    };
+  }
+
+  /** Push the user's current presence to every subscribed socket. */
+  static async publish(userId: string): Promise<void> {
+    const event = await this.getPresence(userId);
+    getIO().to(presenceRoom(userId)).emit('presence', event);
+  }
+
+  /**
+   * Drop every subscription to a user (e.g. after they tightened their
+   * privacy setting).  Subscribers must subscribe again and are re-checked.
+   */
+  static resetSubscribers(userId: string): void {
+    const room = presenceRoom(userId);
+    getIO().in(room).socketsLeave(room);
+  }
+}
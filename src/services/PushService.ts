@@ -0,0 +1,83 @@
+import { Device } from '../models';
+import { config } from '../config';
+import { createPushProvider, PushProvider, WAKE_UP_PAYLOAD } from './push';
+
+/** Upper bound for a single backoff delay, including `Retry-After` hints. */
+const MAX_BACKOFF_MS = 30 * 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Sends content-free wake-up pushes to devices that have messages waiting.
+ *
+ * The actual transport is a pluggable `PushProvider` (FCM, a local stub,
+ * or none).  Transient failures are retried with exponential backoff and
+ * jitter; tokens the provider reports as unregistered are cleared from
+ * the `devices` row so they are not tried again.
+ */
+export class PushService {
+  constructor(private provider: PushProvider | null) {}
+
+  /** Replace the active provider (e.g. with a `StubPushProvider` in tests). */
+  setProvider(provider: PushProvider | null): void {
+    this.provider = provider;
+  }
+
+  /**
+   * Wake the given devices of a user.  Devices without a push token are
+   * skipped.  Never throws for delivery failures.
+   */
+  async wakeDevices(userId: string, deviceIds: string[]): Promise<void> {
+    if (!this.provider || deviceIds.length === 0) return;
+
+    const targets = await Device.findPushTargets(userId, deviceIds);
+    await Promise.all(targets.map((device) => this.pushWithRetry(device)));
+  }
+
+  private async pushWithRetry(device: Device): Promise<void> {
+    const provider = this.provider;
+    const token = device.fcm_token;
+    if (!provider || !token) return;
+
+    for (let attempt = 1; attempt <= config.push.maxAttempts; attempt++) {
+      const result = await provider.send(token, WAKE_UP_PAYLOAD);
+
+      switch (result.outcome) {
+        case 'sent':
+          return;
+
+        case 'unregistered':
+          await Device.clearFcmToken(device.id, token);
+          console.log(
+            `[PushService] Cleared unregistered ${provider.name} token for device ${device.id}`
+          );
+          return;
+
+        case 'failed':
+          console.error(`[PushService] Push to device ${device.id} failed: ${result.error}`);
+          return;
+
+        case 'retryable':
+          if (attempt === config.push.maxAttempts) {
+            console.error(
+              `[PushService] Giving up on device ${device.id} after ${attempt} attempt(s): ${result.error}`
+            );
+            return;
+          }
+          await sleep(this.backoffDelay(attempt, result.retryAfterMs));
+      }
+    }
+  }
+
+  /** Exponential backoff with full jitter, honouring provider hints. */
+  private backoffDelay(attempt: number, retryAfterMs?: number): number {
+    const exponential = config.push.retryBaseDelayMs * 2 ** (attempt - 1);
+    const jittered = Math.random() * exponential;
+    return Math.min(Math.max(jittered, retryAfterMs ?? 0), MAX_BACKOFF_MS);
+  }
+}
+
+/** Singleton instance for use across the application. */
+export const pushService = new PushService(createPushProvider());
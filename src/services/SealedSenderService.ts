@@ -0,0 +1,92 @@
+import nacl from 'tweetnacl';
+import { User, Device } from '../models';
+import { config } from '../config';
+import { signData, secretsEqual } from '../utils/crypto';
+
+/** Contents of a sender certificate (serialized as UTF-8 JSON, then base64). */
+export interface SenderCertificateContents {
+  senderId: string;
+  senderDeviceId: string;
+  identityPublicKey: string;
+  /** Expiry as epoch milliseconds. */
+  expires: number;
+}
+
+export interface SenderCertificate {
+  /** Base64 of the UTF-8 JSON `SenderCertificateContents`. */
+  certificate: string;
+  /** Server Ed25519 signature over the `certificate` string. */
+  signature: string;
+  /** Base64 Ed25519 public key clients verify `signature` against. */
+  serverPublicKey: string;
+}
+
+/**
+ * Sealed-sender (unidentified) delivery, in the style of Signal.
+ *
+ * An authenticated client fetches a short-lived sender certificate signed by
+ * the server and places it *inside* its encrypted envelope, so only the
+ * recipient learns (and can verify) who sent the message.  The envelope is
+ * then submitted without authentication; the server only checks that the
+ * submitter knows the recipient's unidentified access key, and stores the
+ * message with no `sender_id`.
+ */
+export class SealedSenderService {
+  private static keyPair: nacl.SignKeyPair | null = null;
+
+  /** Server signing key — from config, or ephemeral outside production. */
+  private static getKeyPair(): nacl.SignKeyPair {
+    if (!this.keyPair) {
+      const seed = config.sealedSender.certificateSigningKey
+        ? new Uint8Array(Buffer.from(config.sealedSender.certificateSigningKey, 'base64'))
+        : nacl.randomBytes(32);
+      this.keyPair = nacl.sign.keyPair.fromSeed(seed);
+    }
+    return this.keyPair;
+  }
+
+  static getServerPublicKey(): string {
+    return Buffer.from(this.getKeyPair().publicKey).toString('base64');
+  }
+
+  /**
+   * Issue a sender certificate for an authenticated device, carrying that
+   * device's own identity key (the one its pre-key bundles advertise).
+   */
+  static async issueCertificate(
+    userId: string,
+    deviceId: string
+  ): Promise<SenderCertificate | null> {
+    const device = await Device.findByUserIdAndDeviceId(userId, deviceId);
+    if (!device) {
+      return null;
+    }
+
+    const contents: SenderCertificateContents = {
+      senderId: device.user_id,
+      senderDeviceId: device.device_id,
+      identityPublicKey: device.identity_public_key,
+      expires: Date.now() + config.sealedSender.certificateTtlMs,
+    };
+    const certificate = Buffer.from(JSON.stringify(contents), 'utf8').toString('base64');
+
+    return {
+      certificate,
+      signature: signData(this.getKeyPair().secretKey, certificate),
+      serverPublicKey: this.getServerPublicKey(),
+    };
+  }
+
+  /**
+   * Check a presented unidentified access key against the recipient's
+   * registered key.  Users without a registered key cannot receive sealed
+   * messages.
+   */
+  static async checkAccessKey(recipientId: string, accessKey: string): Promise<boolean> {
+    const recipient = await User.query().findById(recipientId).select('unidentified_access_key');
+    if (!recipient?.unidentified_access_key) {
+      return false;
+    }
+    return secretsEqual(recipient.unidentified_access_key, accessKey);
+  }
+}
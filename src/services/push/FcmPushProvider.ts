@@ -0,0 +1,166 @@
+import jwt from 'jsonwebtoken';
+import { PushProvider, PushResult } from './PushProvider';
+
+const OAUTH_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const FCM_SCOPE = 'https://www.googleapis.com/auth/firebase.messaging';
+
+/** Refresh the OAuth access token this long before it actually expires. */
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+/** Abort a single FCM request after this long. */
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+export interface FcmCredentials {
+  projectId: string;
+  clientEmail: string;
+  privateKey: string;
+}
+
+interface FcmErrorBody {
+  error?: {
+    status?: string;
+    message?: string;
+    details?: Array<{ '@type'?: string; errorCode?: string }>;
+  };
+}
+
+/**
+ * Parse a `Retry-After` header (seconds or HTTP date) into milliseconds.
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds, 0) * 1000;
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Firebase Cloud Messaging driver using the HTTP v1 API.
+ *
+ * Authenticates with a service account: a self-signed RS256 JWT is
+ * exchanged for an OAuth2 access token, which is cached until shortly
+ * before it expires.
+ */
+export class FcmPushProvider implements PushProvider {
+  readonly name = 'fcm';
+  private accessToken: { value: string; expiresAt: number } | null = null;
+
+  constructor(private readonly credentials: FcmCredentials) {}
+
+  async send(token: string, data: Readonly<Record<string, string>>): Promise<PushResult> {
+    let accessToken: string;
+    try {
+      accessToken = await this.getAccessToken();
+    } catch (error) {
+      return { outcome: 'retryable', error: `OAuth token exchange failed: ${String(error)}` };
+    }
+
+    let res: Response;
+    try {
+      res = await fetch(
+        `https://fcm.googleapis.com/v1/projects/${encodeURIComponent(this.credentials.projectId)}/messages:send`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            message: {
+              token,
+              data,
+              android: { priority: 'high', collapse_key: 'wake' },
+              apns: {
+                headers: {
+                  'apns-push-type': 'background',
+                  'apns-priority': '5',
+                  'apns-collapse-id': 'wake',
+                },
+                payload: { aps: { 'content-available': 1 } },
+              },
+            },
+          }),
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        }
+      );
+    } catch (error) {
+      return { outcome: 'retryable', error: `FCM request failed: ${String(error)}` };
+    }
+
+    if (res.ok) {
+      return { outcome: 'sent' };
+    }
+
+    const body = (await res.json().catch(() => ({}))) as FcmErrorBody;
+    const errorCode = body.error?.details?.find((d) =>
+      d['@type']?.endsWith('google.firebase.fcm.v1.FcmError')
+    )?.errorCode;
+    const error = `FCM ${res.status}: ${errorCode ?? body.error?.status ?? 'unknown error'}`;
+
+    if (errorCode === 'UNREGISTERED' || res.status === 404) {
+      return { outcome: 'unregistered', error };
+    }
+
+    if (res.status === 401) {
+      // Access token rejected — force a fresh exchange on the next attempt
+      this.accessToken = null;
+      return { outcome: 'retryable', error };
+    }
+
+    if (res.status === 429 || res.status >= 500) {
+      return {
+        outcome: 'retryable',
+        retryAfterMs: parseRetryAfter(res.headers.get('retry-after')),
+        error,
+      };
+    }
+
+    return { outcome: 'failed', error };
+  }
+
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && this.accessToken.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+      return this.accessToken.value;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const assertion = jwt.sign(
+      {
+        iss: this.credentials.clientEmail,
+        scope: FCM_SCOPE,
+        aud: OAUTH_TOKEN_URL,
+        iat: now,
+        exp: now + 3600,
+      },
+      this.credentials.privateKey,
+      { algorithm: 'RS256' }
+    );
+
+    const res = await fetch(OAUTH_TOKEN_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion,
+      }).toString(),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!res.ok) {
+      throw new Error(`token endpoint returned ${res.status}`);
+    }
+
+    const { access_token, expires_in } = (await res.json()) as {
+      access_token: string;
+      expires_in: number;
+    };
+
+    this.accessToken = { value: access_token, expiresAt: Date.now() + expires_in * 1000 };
+    return access_token;
+  }
+}
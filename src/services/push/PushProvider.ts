@@ -0,0 +1,31 @@
+/**
+ * Content-free wake-up notification.  It carries no sender, message ID or
+ * ciphertext — the client reacts by reconnecting and fetching its queue.
+ */
+export const WAKE_UP_PAYLOAD: Readonly<Record<string, string>> = Object.freeze({ type: 'wake' });
+
+/**
+ * Result of a single push attempt.
+ *
+ * - `sent`         — accepted by the provider.
+ * - `unregistered` — the token is no longer valid and should be cleared.
+ * - `retryable`    — transient failure (rate limit, 5xx, network); may be retried.
+ * - `failed`       — permanent failure for this attempt; do not retry.
+ */
+export type PushOutcome = 'sent' | 'unregistered' | 'retryable' | 'failed';
+
+export interface PushResult {
+  outcome: PushOutcome;
+  /** Provider-requested delay before the next attempt (e.g. `Retry-After`). */
+  retryAfterMs?: number;
+  error?: string;
+}
+
+/**
+ * A push notification driver.  Implementations must never throw for
+ * delivery failures — they report them through `PushResult` instead.
+ */
+export interface PushProvider {
+  readonly name: string;
+  send(token: string, data: Readonly<Record<string, string>>): Promise<PushResult>;
+}
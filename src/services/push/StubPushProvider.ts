@@ -0,0 +1,41 @@
+import { PushProvider, PushResult } from './PushProvider';
+
+export interface RecordedPush {
+  token: string;
+  data: Readonly<Record<string, string>>;
+  sentAt: Date;
+}
+
+/**
+ * Local push driver for development and tests.  Nothing leaves the
+ * process: every push is logged and recorded in `sent`.
+ *
+ * Tests can script provider behaviour per token with `respondWith()`,
+ * e.g. to simulate an unregistered token or a transient failure.
+ */
+export class StubPushProvider implements PushProvider {
+  readonly name = 'stub';
+  readonly sent: RecordedPush[] = [];
+  private responses = new Map<string, PushResult[]>();
+
+  async send(token: string, data: Readonly<Record<string, string>>): Promise<PushResult> {
+    const scripted = this.responses.get(token)?.shift();
+    if (scripted) {
+      return scripted;
+    }
+
+    this.sent.push({ token, data, sentAt: new Date() });
+    console.log(`[StubPushProvider] Push to …${token.slice(-8)}: ${JSON.stringify(data)}`);
+    return { outcome: 'sent' };
+  }
+
+  /** Queue results to return (in order) for the next pushes to `token`. */
+  respondWith(token: string, ...results: PushResult[]): void {
+    this.responses.set(token, [...(this.responses.get(token) ?? []), ...results]);
+  }
+
+  reset(): void {
+    this.sent.length = 0;
+    this.responses.clear();
+  }
+}
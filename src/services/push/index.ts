@@ -0,0 +1,23 @@
+import { config } from '../../config';
+import { PushProvider } from './PushProvider';
+import { FcmPushProvider } from './FcmPushProvider';
+import { StubPushProvider } from './StubPushProvider';
+
+export { WAKE_UP_PAYLOAD, PushProvider, PushResult, PushOutcome } from './PushProvider';
+export { FcmPushProvider, FcmCredentials } from './FcmPushProvider';
+export { StubPushProvider, RecordedPush } from './StubPushProvider';
+
+/**
+ * Build the push driver selected by `config.push.provider`, or `null`
+ * when push notifications are disabled.
+ */
+export function createPushProvider(): PushProvider | null {
+  switch (config.push.provider) {
+    case 'fcm':
+      return new FcmPushProvider(config.push.fcm);
+    case 'stub':
+      return new StubPushProvider();
+    default:
+      return null;
+  }
+}
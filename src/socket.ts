@@ -1,51 +1,191 @@
 import { Server as HttpServer } from 'http';
+import crypto from 'crypto';
 import { Server, Socket } from 'socket.io';
+import { createAdapter } from '@socket.io/postgres-adapter';
+import { Pool } from 'pg';
 import jwt from 'jsonwebtoken';
 import { config } from './config';
-import { Device } from './models';
+import { Block, Conversation, Device, GroupMember } from './models';
 import { JwtPayload } from './middleware/auth';
+import { messageDeliveryService } from './services/MessageDeliveryService';
+import { validateSendInput, relayMessage } from './controllers/messages';
+import { PresenceService } from './services/PresenceService';
+import { callService } from './services/CallService';
+import { validateCallOfferInput, validateCallSignalInput } from './controllers/calls';
+import { ApiResponse } from './types';
 
 /**
- * In-memory map of connected clients.
- *
- * Key:   `${userId}:${deviceId}`
- * Value: Socket.io `socket.id`
+ * Presence is derived from Socket.io rooms rather than a local map, so it
+ * holds across every server instance when the Postgres adapter is enabled
+ * (`SOCKET_ADAPTER=postgres`): rooms, emits, `fetchSockets()` and
+ * `disconnectSockets()` are all relayed between instances via
+ * LISTEN/NOTIFY.
  *
  * Tenebra enforces a single active connection per user:device combination.
- * Because the auth system also enforces one device per user, there will be
- * at most one entry per userId at any time.
+ * A user may have several devices online at once, each in its own room.
  */
-interface OnlineClient {
-  userId: string;
-  deviceId: string;
-  socketId: string;
-}
-
-const onlineClients = new Map<string, OnlineClient>();
 
 /** Reference to the Socket.io server instance. */
 let io: Server;
 
+/** Dedicated pool backing the Postgres adapter (if enabled). */
+let adapterPool: Pool | null = null;
+
 /** Heartbeat interval: update `last_seen_at` every hour for long-lived sockets. */
 const HEARTBEAT_INTERVAL_MS = 60 * 60 * 1000;
 
 /** Handle returned by the shared heartbeat setInterval (if running). */
 let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
 
+/** Maximum number of message IDs accepted in a single `message_ack`. */
+const MAX_ACK_BATCH = 100;
+
+/**
+ * Rate limit per socket (mirrors the HTTP API limiter), counted separately
+ * for `send_message` and for call signaling.
+ */
+const SEND_RATE_WINDOW_MS = 15 * 60 * 1000;
+const SEND_RATE_MAX = 300;
+
+/** Events sharing one rate-limit window. */
+type QuotaKind = 'send' | 'call';
+
+/**
+ * Reply passed to Socket.io acknowledgement callbacks.  Mirrors the HTTP
+ * `ApiResponse`, with `code` carrying the equivalent HTTP status on errors.
+ */
+type SocketAck<T = unknown> = ApiResponse<T> & { code?: number };
+
+type AckCallback = (response: SocketAck) => void;
+
+/** Why a device's sockets are being closed by the server. */
+export type SessionRevokedReason =
+  | 'logged_out'
+  | 'device_revoked'
+  | 'device_replaced'
+  | 'identity_key_changed'
+  | 'token_expired';
+
+/** Shape of the `session_revoked` Socket.io event. */
+export interface SessionRevokedEvent {
+  reason: SessionRevokedReason;
+  timestamp: string;
+}
+
+/** Maximum number of users in a single `presence_subscribe` / `presence_unsubscribe`. */
+const MAX_PRESENCE_BATCH = 100;
+
+/** Shape of the relayed `typing_start` / `typing_stop` Socket.io events. */
+export interface TypingEvent {
+  senderId: string;
+  senderDeviceId: string;
+  /** Set for group conversations; `null` for 1:1. */
+  groupId: string | null;
+  timestamp: string;
+}
+
+/** Namespace used by not-yet-registered devices waiting to be linked. */
+const PROVISIONING_NAMESPACE = '/provisioning';
+
+/** How long a provisioning address stays valid before its socket is closed. */
+const PROVISIONING_TTL_MS = 10 * 60 * 1000;
+
+/** Concurrent provisioning sockets allowed per client IP on one instance. */
+const MAX_PROVISIONING_SOCKETS_PER_IP = 5;
+
+/** Open provisioning sockets per client IP on this instance. */
+const provisioningSocketsByIp = new Map<string, number>();
+
+/** Shape of the `provisioning_address` Socket.io event. */
+export interface ProvisioningAddressEvent {
+  address: string;
+  expiresAt: string;
+}
+
+/** Shape of the `provisioning_message` Socket.io event. */
+export interface ProvisioningMessageEvent {
+  /** Base64 ciphertext produced by the linking device — opaque to the server. */
+  body: string;
+  timestamp: string;
+}
+
+/** `setTimeout` cannot wait longer than ~24.8 days. */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
-/** Build a deterministic map key from userId + deviceId. */
-function clientKey(userId: string, deviceId: string): string {
+/** Build a deterministic key from userId + deviceId. */
+export function clientKey(userId: string, deviceId: string): string {
   return `${userId}:${deviceId}`;
 }
 
 /**
- * Verify a raw Bearer-style token and return the validated payload, or
- * `null` if verification fails for any reason.
+ * Name of the Socket.io room joined by every socket of a single device.
+ * The plain `userId` room addresses all of the user's devices at once.
  */
-function verifyToken(token: string): JwtPayload | null {
+export function deviceRoom(userId: string, deviceId: string): string {
+  return `device:${userId}:${deviceId}`;
+}
+
+/** Name of the room joined by sockets subscribed to a user's presence. */
+export function presenceRoom(userId: string): string {
+  return `presence:${userId}`;
+}
+
+/** Validate a `{ userIds: string[] }` presence payload; `null` if malformed. */
+function parsePresenceUserIds(payload: unknown): string[] | null {
+  const userIds = (payload as { userIds?: unknown } | null)?.userIds;
+  if (
+    !Array.isArray(userIds) ||
+    userIds.length === 0 ||
+    userIds.length > MAX_PRESENCE_BATCH ||
+    userIds.some((id) => typeof id !== 'string' || !UUID_RE.test(id))
+  ) {
+    return null;
+  }
+  return [...new Set(userIds as string[])];
+}
+
+/** Name of the room joined by the socket behind a provisioning address. */
+function provisioningRoom(address: string): string {
+  return `provisioning:${address}`;
+}
+
+/** Return the client's ack callback, or a no-op if none was supplied. */
+function ackOrNoop(callback: unknown): AckCallback {
+  return typeof callback === 'function' ? (callback as AckCallback) : () => undefined;
+}
+
+/**
+ * Fixed-window rate limit for `send_message` (`send`) or the call
+ * signaling events (`call`), tracked on `socket.data`.  Returns `true` if
+ * the event may proceed.
+ */
+function consumeQuota(socket: Socket, kind: QuotaKind): boolean {
+  const now = Date.now();
+  const windows = (socket.data.rateWindows ??= {}) as Partial<
+    Record<QuotaKind, { start: number; count: number }>
+  >;
+  const window = windows[kind];
+
+  if (!window || now - window.start >= SEND_RATE_WINDOW_MS) {
+    windows[kind] = { start: now, count: 1 };
+    return true;
+  }
+
+  window.count += 1;
+  return window.count <= SEND_RATE_MAX;
+}
+
+/**
+ * Verify a raw Bearer-style token and return the validated payload (with
+ * its `exp` claim), or `null` if verification fails for any reason.
+ */
+function verifyToken(token: string): (JwtPayload & { exp?: number }) | null {
   try {
     const decoded = jwt.verify(token, config.jwt.secret);
 
@@ -53,17 +193,22 @@ function verifyToken(token: string): JwtPayload | null {
       typeof decoded !== 'object' ||
       decoded === null ||
       typeof (decoded as JwtPayload).userId !== 'string' ||
-      typeof (decoded as JwtPayload).deviceId !== 'string'
+      typeof (decoded as JwtPayload).deviceId !== 'string' ||
+      typeof (decoded as JwtPayload).sessionId !== 'string'
     ) {
       return null;
     }
 
-    return decoded as JwtPayload;
+    return decoded as JwtPayload & { exp?: number };
   } catch {
     return null;
   }
 }
 
+function revokedEvent(reason: SessionRevokedReason): SessionRevokedEvent {
+  return { reason, timestamp: new Date().toISOString() };
+}
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
@@ -71,9 +216,10 @@ function verifyToken(token: string): JwtPayload | null {
 /**
  * Initialise Socket.io on the given HTTP server.
  *
+ * - Attaches the Postgres adapter for cross-instance delivery (if enabled).
  * - Registers a connection-level JWT authentication middleware.
- * - Tracks online clients in the `onlineClients` map.
- * - Cleans up on disconnect.
+ * - Keeps one socket per user:device across the cluster.
+ * - Serves unauthenticated device-linking sockets on `/provisioning`.
  */
 export function initSocket(httpServer: HttpServer): Server {
   io = new Server(httpServer, {
@@ -83,6 +229,22 @@ export function initSocket(httpServer: HttpServer): Server {
     },
   });
 
+  if (config.socket.adapter === 'postgres') {
+    adapterPool = new Pool({
+      host: config.database.host,
+      port: config.database.port,
+      database: config.database.database,
+      user: config.database.user,
+      password: config.database.password,
+      max: 2,
+    });
+    io.adapter(
+      createAdapter(adapterPool, {
+        errorHandler: (err) => console.error('[Socket] Postgres adapter error:', err),
+      })
+    );
+  }
+
   // -----------------------------------------------------------------------
   // Socket.io authentication middleware
   // -----------------------------------------------------------------------
@@ -101,14 +263,20 @@ export function initSocket(httpServer: HttpServer): Server {
     }
 
     // Ensure the device still exists in the DB (remote-logout enforcement)
+    // and has not logged in again since the token was issued
     const device = await Device.findByUserIdAndDeviceId(payload.userId, payload.deviceId);
-    if (!device) {
+    if (!device || device.session_id !== payload.sessionId) {
       return next(new Error('Session invalidated'));
     }
 
     // Attach the validated payload and device record id to the socket
-    socket.data.user = payload;
+    socket.data.user = {
+      userId: payload.userId,
+      deviceId: payload.deviceId,
+      sessionId: payload.sessionId,
+    };
     socket.data.deviceDbId = device.id;
+    socket.data.tokenExpiresAt = payload.exp ? payload.exp * 1000 : null;
     next();
   });
 
@@ -119,18 +287,31 @@ export function initSocket(httpServer: HttpServer): Server {
     const user = socket.data.user as JwtPayload;
     const key = clientKey(user.userId, user.deviceId);
 
-    // If there is an existing socket for this user:device, disconnect it
-    const existingClient = onlineClients.get(key);
-    if (existingClient) {
-      const existing = io.sockets.sockets.get(existingClient.socketId);
-      if (existing) {
-        existing.disconnect(true);
-      }
-    }
+    // Disconnect any existing socket for this user:device, on whichever
+    // instance holds it.  Must run before this socket joins the room.
+    io.in(deviceRoom(user.userId, user.deviceId)).disconnectSockets(true);
 
-    onlineClients.set(key, { userId: user.userId, deviceId: user.deviceId, socketId: socket.id });
     console.log(`Client connected: ${key} (socket ${socket.id})`);
 
+    // Close the socket once its JWT expires, unless `refresh_token` extends it
+    let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+    const scheduleExpiry = (): void => {
+      if (expiryTimer) clearTimeout(expiryTimer);
+      const expiresAt = socket.data.tokenExpiresAt as number | null;
+      if (!expiresAt) return;
+
+      const delay = Math.min(Math.max(expiresAt - Date.now(), 0), MAX_TIMER_DELAY_MS);
+      expiryTimer = setTimeout(() => {
+        if (Date.now() < expiresAt) {
+          scheduleExpiry(); // delay was clamped — keep waiting
+          return;
+        }
+        socket.emit('session_revoked', revokedEvent('token_expired'));
+        socket.disconnect(true);
+      }, delay);
+    };
+    scheduleExpiry();
+
     // Update last_seen_at on connection using the cached device record id
     const deviceDbId: string | undefined = socket.data.deviceDbId;
     if (deviceDbId) {
@@ -139,29 +320,395 @@ export function initSocket(httpServer: HttpServer): Server {
       });
     }
 
-    // Join a room named after the userId so we can target by user
+    // Join a room named after the userId so we can target by user, and a
+    // device-scoped room so per-device ciphertexts reach only their device
     socket.join(user.userId);
+    socket.join(deviceRoom(user.userId, user.deviceId));
+
+    // Re-push anything this device received but never acknowledged
+    messageDeliveryService.redeliver(user.userId, user.deviceId).catch((err) => {
+      console.error(`[Socket] Failed to redeliver unacked messages for ${key}:`, err);
+    });
+
+    PresenceService.publish(user.userId).catch((err) => {
+      console.error(`[Socket] Failed to publish presence for ${key}:`, err);
+    });
+
+    // Client acknowledges `new_message` events: { messageIds: string[] }
+    socket.on('message_ack', async (payload: unknown, callback?: unknown) => {
+      const reply = ackOrNoop(callback);
+      const messageIds = (payload as { messageIds?: unknown } | null)?.messageIds;
+
+      if (
+        !Array.isArray(messageIds) ||
+        messageIds.length === 0 ||
+        messageIds.length > MAX_ACK_BATCH ||
+        messageIds.some((id) => typeof id !== 'string' || !UUID_RE.test(id))
+      ) {
+        reply({
+          success: false,
+          code: 400,
+          error: `messageIds must be an array of 1-${MAX_ACK_BATCH} UUIDs`,
+        });
+        return;
+      }
 
-    socket.on('disconnect', () => {
-      // Only remove from the map if *this* socket is still the current one
-      const current = onlineClients.get(key);
-      if (current && current.socketId === socket.id) {
-        onlineClients.delete(key);
-        console.log(`Client disconnected: ${key} (socket ${socket.id})`);
-      } else {
-        console.log(
-          `Stale socket disconnected for ${key} (socket ${socket.id}) — a newer socket is active`
+      try {
+        const acked = await messageDeliveryService.acknowledge(
+          user.userId,
+          user.deviceId,
+          messageIds
+        );
+        reply({ success: true, data: { acked } });
+      } catch (err) {
+        console.error(`[Socket] Failed to process message_ack for ${key}:`, err);
+        reply({ success: false, code: 500, error: 'Internal server error' });
+      }
+    });
+
+    // Socket equivalent of POST /api/messages/send — same payload and checks
+    socket.on('send_message', async (payload: unknown, callback?: unknown) => {
+      const reply = ackOrNoop(callback);
+
+      if (!consumeQuota(socket, 'send')) {
+        reply({
+          success: false,
+          code: 429,
+          error: 'Too many requests, please try again later.',
+        });
+        return;
+      }
+
+      const input = validateSendInput(
+        typeof payload === 'object' && payload !== null ? (payload as Record<string, unknown>) : {}
+      );
+      if (typeof input === 'string') {
+        reply({ success: false, code: 400, error: input });
+        return;
+      }
+
+      try {
+        const outcome = await relayMessage(user, input);
+        if (!outcome.ok) {
+          reply({ success: false, code: outcome.status, error: outcome.error, data: outcome.data });
+          return;
+        }
+        reply({ success: true, data: outcome.result });
+      } catch (err) {
+        console.error(`[Socket] Failed to process send_message for ${key}:`, err);
+        reply({ success: false, code: 500, error: 'Internal server error' });
+      }
+    });
+
+    // Follow the presence of other users: { userIds: string[] }.  Replies
+    // with a snapshot of those the caller may see; only they are joined.
+    socket.on('presence_subscribe', async (payload: unknown, callback?: unknown) => {
+      const reply = ackOrNoop(callback);
+      const userIds = parsePresenceUserIds(payload);
+      if (!userIds) {
+        reply({
+          success: false,
+          code: 400,
+          error: `userIds must be an array of 1-${MAX_PRESENCE_BATCH} UUIDs`,
+        });
+        return;
+      }
+
+      try {
+        const visible = await PresenceService.filterVisible(user.userId, userIds);
+        socket.join(visible.map(presenceRoom));
+        const presence = await Promise.all(visible.map((id) => PresenceService.getPresence(id)));
+        reply({ success: true, data: { presence } });
+      } catch (err) {
+        console.error(`[Socket] Failed to process presence_subscribe for ${key}:`, err);
+        reply({ success: false, code: 500, error: 'Internal server error' });
+      }
+    });
+
+    socket.on('presence_unsubscribe', (payload: unknown, callback?: unknown) => {
+      const reply = ackOrNoop(callback);
+      const userIds = parsePresenceUserIds(payload);
+      if (!userIds) {
+        reply({
+          success: false,
+          code: 400,
+          error: `userIds must be an array of 1-${MAX_PRESENCE_BATCH} UUIDs`,
+        });
+        return;
+      }
+
+      for (const id of userIds) {
+        socket.leave(presenceRoom(id));
+      }
+      reply({ success: true });
+    });
+
+    // Ephemeral typing indicators — relayed to the peer's (or the group's)
+    // online devices and the sender's other devices, never persisted.
+    // A 1:1 peer who has not accepted the sender is left out.
+    // Payload: { recipientId } for 1:1 or { groupId } for a group.
+    for (const eventName of ['typing_start', 'typing_stop'] as const) {
+      socket.on(eventName, async (payload: unknown, callback?: unknown) => {
+        const reply = ackOrNoop(callback);
+        const { recipientId, groupId } = (payload ?? {}) as {
+          recipientId?: unknown;
+          groupId?: unknown;
+        };
+
+        const isRecipient = typeof recipientId === 'string' && UUID_RE.test(recipientId);
+        const isGroup = typeof groupId === 'string' && UUID_RE.test(groupId);
+        if (isRecipient === isGroup) {
+          reply({
+            success: false,
+            code: 400,
+            error: 'Provide exactly one of recipientId, groupId',
+          });
+          return;
+        }
+
+        try {
+          let rooms: string[];
+          if (isGroup) {
+            const membership = await GroupMember.findMembership(groupId as string, user.userId);
+            if (!membership) {
+              reply({ success: false, code: 403, error: 'Not a member of this group' });
+              return;
+            }
+            const members = await GroupMember.findByGroupId(groupId as string);
+            rooms = members.map((m) => m.user_id);
+          } else if (
+            (await Block.isBlocked(recipientId as string, user.userId)) ||
+            !(await Conversation.isAccepted(recipientId as string, user.userId))
+          ) {
+            // Dropped silently, like a blocked sender's or a stranger's messages
+            rooms = [user.userId];
+          } else {
+            rooms = [recipientId as string, user.userId];
+          }
+
+          const event: TypingEvent = {
+            senderId: user.userId,
+            senderDeviceId: user.deviceId,
+            groupId: isGroup ? (groupId as string) : null,
+            timestamp: new Date().toISOString(),
+          };
+          // `socket.to` skips this socket itself
+          socket.to(rooms).emit(eventName, event);
+          reply({ success: true });
+        } catch (err) {
+          console.error(`[Socket] Failed to process ${eventName} for ${key}:`, err);
+          reply({ success: false, code: 500, error: 'Internal server error' });
+        }
+      });
+    }
+
+    // Call signaling — every SDP / ICE payload is end-to-end encrypted and
+    // only relayed.  Start a call: { calleeId, callType, offers: [{ deviceId, ciphertext }] }
+    // Acks { callId, status: 'ringing' | 'busy' | 'offline' }; `offline` also
+    // covers callees who have not accepted the caller, so it is not retried.
+    socket.on('call_offer', async (payload: unknown, callback?: unknown) => {
+      const reply = ackOrNoop(callback);
+      if (!consumeQuota(socket, 'call')) {
+        reply({ success: false, code: 429, error: 'Too many requests, please try again later.' });
+        return;
+      }
+
+      const input = validateCallOfferInput(
+        typeof payload === 'object' && payload !== null ? (payload as Record<string, unknown>) : {}
+      );
+      if (typeof input === 'string') {
+        reply({ success: false, code: 400, error: input });
+        return;
+      }
+
+      try {
+        const outcome = await callService.offer(user, input);
+        reply(
+          outcome.ok
+            ? { success: true, data: outcome.data }
+            : { success: false, code: outcome.status, error: outcome.error }
+        );
+      } catch (err) {
+        console.error(`[Socket] Failed to process call_offer for ${key}:`, err);
+        reply({ success: false, code: 500, error: 'Internal server error' });
+      }
+    });
+
+    // Answer a ringing call / send an ICE candidate: { callId, ciphertext }
+    for (const eventName of ['call_answer', 'ice_candidate'] as const) {
+      socket.on(eventName, async (payload: unknown, callback?: unknown) => {
+        const reply = ackOrNoop(callback);
+        if (!consumeQuota(socket, 'call')) {
+          reply({ success: false, code: 429, error: 'Too many requests, please try again later.' });
+          return;
+        }
+
+        const input = validateCallSignalInput(
+          typeof payload === 'object' && payload !== null
+            ? (payload as Record<string, unknown>)
+            : {}
+        );
+        if (typeof input === 'string') {
+          reply({ success: false, code: 400, error: input });
+          return;
+        }
+
+        try {
+          const outcome =
+            eventName === 'call_answer'
+              ? await callService.answer(user, input)
+              : await callService.relayIceCandidate(user, input);
+          reply(
+            outcome.ok
+              ? { success: true }
+              : { success: false, code: outcome.status, error: outcome.error }
+          );
+        } catch (err) {
+          console.error(`[Socket] Failed to process ${eventName} for ${key}:`, err);
+          reply({ success: false, code: 500, error: 'Internal server error' });
+        }
+      });
+    }
+
+    // Cancel, decline or end a call: { callId }
+    socket.on('call_hangup', async (payload: unknown, callback?: unknown) => {
+      const reply = ackOrNoop(callback);
+      if (!consumeQuota(socket, 'call')) {
+        reply({ success: false, code: 429, error: 'Too many requests, please try again later.' });
+        return;
+      }
+
+      const callId = (payload as { callId?: unknown } | null)?.callId;
+      if (typeof callId !== 'string' || !UUID_RE.test(callId)) {
+        reply({ success: false, code: 400, error: 'callId must be a valid UUID' });
+        return;
+      }
+
+      try {
+        const outcome = await callService.hangup(user, callId);
+        reply(
+          outcome.ok
+            ? { success: true, data: outcome.data }
+            : { success: false, code: outcome.status, error: outcome.error }
         );
+      } catch (err) {
+        console.error(`[Socket] Failed to process call_hangup for ${key}:`, err);
+        reply({ success: false, code: 500, error: 'Internal server error' });
       }
+    });
+
+    // Re-validate a long-lived socket with a fresh JWT for the same device
+    socket.on('refresh_token', async (payload: unknown, callback?: unknown) => {
+      const reply = ackOrNoop(callback);
+      const token = (payload as { token?: unknown } | null)?.token;
+      const refreshed = typeof token === 'string' ? verifyToken(token) : null;
+
+      if (
+        !refreshed ||
+        refreshed.userId !== user.userId ||
+        refreshed.deviceId !== user.deviceId ||
+        refreshed.sessionId !== user.sessionId
+      ) {
+        reply({ success: false, code: 401, error: 'Invalid or expired token' });
+        return;
+      }
+
+      try {
+        const device = await Device.findByUserIdAndDeviceId(user.userId, user.deviceId);
+        if (!device || device.session_id !== user.sessionId) {
+          reply({ success: false, code: 401, error: 'Session invalidated' });
+          return;
+        }
+
+        socket.data.tokenExpiresAt = refreshed.exp ? refreshed.exp * 1000 : null;
+        scheduleExpiry();
+        reply({ success: true, data: { expiresAt: socket.data.tokenExpiresAt } });
+      } catch (err) {
+        console.error(`[Socket] Failed to process refresh_token for ${key}:`, err);
+        reply({ success: false, code: 500, error: 'Internal server error' });
+      }
+    });
+
+    socket.on('disconnect', () => {
+      if (expiryTimer) clearTimeout(expiryTimer);
+
+      // Socket.io drops the socket from its rooms, so the published status
+      // reflects the user's remaining devices
+      console.log(`Client disconnected: ${key} (socket ${socket.id})`);
+
+      const lastSeen = deviceDbId ? Device.updateLastSeen(deviceDbId) : Promise.resolve();
+      lastSeen
+        .then(() => PresenceService.publish(user.userId))
+        .catch((err) => {
+          console.error(`[Socket] Failed to publish presence on disconnect for ${key}:`, err);
+        });
+
+      callService.endForDevice(user.userId, user.deviceId).catch((err) => {
+        console.error(`[Socket] Failed to end call on disconnect for ${key}:`, err);
+      });
     }); // end disconnect
   }); // end connection
 
+  registerProvisioningNamespace();
+
   // Start the shared heartbeat loop for all connected clients
   startHeartbeat();
 
   return io;
 }
 
+/**
+ * Device linking.  A new, not-yet-registered device connects to the
+ * `/provisioning` namespace without a token and is handed a random,
+ * single-use address (a `provisioning_address` event) to display as a QR
+ * code.  A logged-in device scans it and posts an end-to-end encrypted
+ * provisioning message to `PUT /api/provisioning/:address`, which is
+ * relayed here as `provisioning_message`.  The socket is closed after one
+ * message, or once `PROVISIONING_TTL_MS` elapses.  Nothing is persisted.
+ *
+ * The namespace is unauthenticated, so each client IP may hold at most
+ * `MAX_PROVISIONING_SOCKETS_PER_IP` sockets at once.
+ */
+function registerProvisioningNamespace(): void {
+  const namespace = io.of(PROVISIONING_NAMESPACE);
+
+  namespace.use((socket: Socket, next) => {
+    const open = provisioningSocketsByIp.get(socket.handshake.address) ?? 0;
+    if (open >= MAX_PROVISIONING_SOCKETS_PER_IP) {
+      return next(new Error('Too many provisioning connections, please try again later.'));
+    }
+    next();
+  });
+
+  namespace.on('connection', (socket: Socket) => {
+    const ip = socket.handshake.address;
+    provisioningSocketsByIp.set(ip, (provisioningSocketsByIp.get(ip) ?? 0) + 1);
+
+    const address = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = Date.now() + PROVISIONING_TTL_MS;
+
+    socket.join(provisioningRoom(address));
+
+    const expiryTimer = setTimeout(() => socket.disconnect(true), PROVISIONING_TTL_MS);
+    socket.on('disconnect', () => {
+      clearTimeout(expiryTimer);
+
+      const remaining = (provisioningSocketsByIp.get(ip) ?? 1) - 1;
+      if (remaining > 0) {
+        provisioningSocketsByIp.set(ip, remaining);
+      } else {
+        provisioningSocketsByIp.delete(ip);
+      }
+    });
+
+    const event: ProvisioningAddressEvent = {
+      address,
+      expiresAt: new Date(expiresAt).toISOString(),
+    };
+    socket.emit('provisioning_address', event);
+  });
+}
+
 /**
  * Shared heartbeat loop: iterates over all connected sockets once per
  * hour and batch-updates `last_seen_at`.  Uses the cached `deviceDbId`
@@ -192,6 +739,17 @@ export function stopHeartbeat(): void {
   }
 }
 
+/**
+ * Close the Postgres adapter's connection pool (graceful shutdown).
+ */
+export async function closeSocketAdapter(): Promise<void> {
+  if (adapterPool) {
+    const pool = adapterPool;
+    adapterPool = null;
+    await pool.end();
+  }
+}
+
 /**
  * Returns the Socket.io `Server` instance.
  * Throws if called before `initSocket()`.
@@ -204,30 +762,97 @@ export function getIO(): Server {
 }
 
 /**
- * Check whether a specific user:device is currently connected.
+ * Tell every socket of a device (on any instance) that its session is over
+ * with a `session_revoked` event, then force-disconnect them.
  */
-export function isClientOnline(userId: string, deviceId: string): boolean {
-  return onlineClients.has(clientKey(userId, deviceId));
+export function revokeDeviceSessions(
+  userId: string,
+  deviceId: string,
+  reason: SessionRevokedReason
+): void {
+  const room = deviceRoom(userId, deviceId);
+  getIO().to(room).emit('session_revoked', revokedEvent(reason));
+  getIO().in(room).disconnectSockets(true);
+}
+
+/**
+ * Relay a provisioning message to the socket waiting on `address` (on any
+ * instance) and close it, consuming the address.  Returns `false` if no
+ * socket holds that address — it never existed, expired or was used.
+ */
+export async function deliverProvisioningMessage(address: string, body: string): Promise<boolean> {
+  const room = provisioningRoom(address);
+  const namespace = getIO().of(PROVISIONING_NAMESPACE);
+
+  const sockets = await namespace.in(room).fetchSockets();
+  if (sockets.length === 0) return false;
+
+  const event: ProvisioningMessageEvent = { body, timestamp: new Date().toISOString() };
+  namespace.to(room).emit('provisioning_message', event);
+  namespace.in(room).disconnectSockets(true);
+  return true;
+}
+
+/**
+ * Check whether a specific user:device is currently connected to any
+ * instance.
+ */
+export async function isClientOnline(userId: string, deviceId: string): Promise<boolean> {
+  const sockets = await getIO().in(deviceRoom(userId, deviceId)).fetchSockets();
+  return sockets.length > 0;
+}
+
+/**
+ * Of the given user:device addresses, return the `clientKey`s of those
+ * currently connected to any instance — one cluster round trip in total.
+ */
+export async function findOnlineClientKeys(
+  addresses: Array<{ userId: string; deviceId: string }>
+): Promise<Set<string>> {
+  if (addresses.length === 0) return new Set();
+
+  const rooms = [...new Set(addresses.map((a) => deviceRoom(a.userId, a.deviceId)))];
+  const sockets = await getIO().in(rooms).fetchSockets();
+
+  return new Set(
+    sockets.map((s) => {
+      const user = s.data.user as JwtPayload;
+      return clientKey(user.userId, user.deviceId);
+    })
+  );
 }
 
 /**
  * Get the socket ID for a connected user:device, or `undefined`.
  */
-export function getClientSocketId(userId: string, deviceId: string): string | undefined {
-  return onlineClients.get(clientKey(userId, deviceId))?.socketId;
+export async function getClientSocketId(
+  userId: string,
+  deviceId: string
+): Promise<string | undefined> {
+  const sockets = await getIO().in(deviceRoom(userId, deviceId)).fetchSockets();
+  return sockets[0]?.id;
 }
 
 /**
- * Find *any* online deviceId for a given userId (single-session model
- * means at most one).  Returns `undefined` if the user is offline.
+ * Find *any* online deviceId for a given userId.
+ * Returns `undefined` if the user is offline.
  */
-export function findOnlineDeviceForUser(
+export async function findOnlineDeviceForUser(
   userId: string
-): { deviceId: string; socketId: string } | undefined {
-  for (const [, client] of onlineClients.entries()) {
-    if (client.userId === userId) {
-      return { deviceId: client.deviceId, socketId: client.socketId };
-    }
-  }
-  return undefined;
+): Promise<{ deviceId: string; socketId: string } | undefined> {
+  return (await findOnlineDevicesForUser(userId))[0];
+}
+
+/**
+ * List every online device of a given userId, across all instances
+ * (empty if the user is offline).
+ */
+export async function findOnlineDevicesForUser(
+  userId: string
+): Promise<Array<{ deviceId: string; socketId: string }>> {
+  const sockets = await getIO().in(userId).fetchSockets();
+  return sockets.map((s) => ({
+    deviceId: (s.data.user as JwtPayload).deviceId,
+    socketId: s.id,
+  }));
 }
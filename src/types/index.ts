@@ -1,9 +1,13 @@
 // User types
+export type PresenceVisibility = 'everyone' | 'contacts' | 'nobody';
+
 export interface User {
   id: string;
   username: string;
   identity_public_key: string;
   registration_id: number;
+  is_admin: boolean;
+  presence_visibility: PresenceVisibility;
   created_at: Date;
   updated_at: Date;
 }
@@ -18,6 +22,7 @@ export interface CreateUserDTO {
 export interface SignedPreKey {
   id: string;
   user_id: string;
+  device_id: string;
   key_id: number;
   public_key: string;
   signature: string;
@@ -26,6 +31,7 @@ export interface SignedPreKey {
 
 export interface CreateSignedPreKeyDTO {
   user_id: string;
+  device_id: string;
   key_id: number;
   public_key: string;
   signature: string;
@@ -35,6 +41,7 @@ export interface CreateSignedPreKeyDTO {
 export interface OneTimePreKey {
   id: string;
   user_id: string;
+  device_id: string;
   key_id: number;
   public_key: string;
   created_at: Date;
@@ -42,6 +49,7 @@ export interface OneTimePreKey {
 
 export interface CreateOneTimePreKeyDTO {
   user_id: string;
+  device_id: string;
   key_id: number;
   public_key: string;
 }
@@ -49,21 +57,31 @@ export interface CreateOneTimePreKeyDTO {
 // Message Queue types
 export interface QueuedMessage {
   id: string;
+  message_id: string;
   recipient_id: string;
-  sender_id: string;
+  recipient_device_id: string;
+  sender_id: string | null; // null for sealed-sender messages
+  sender_device_id?: string;
   encrypted_payload: Buffer;
   message_type: string;
-  file_reference?: string;
+  file_reference?: string; // JSON array of attachment IDs
+  group_id?: string;
+  last_emitted_at?: Date;
+  delivery_attempts: number;
   created_at: Date;
   expires_at: Date;
 }
 
 export interface CreateQueuedMessageDTO {
+  message_id?: string;
   recipient_id: string;
-  sender_id: string;
+  recipient_device_id: string;
+  sender_id: string | null;
+  sender_device_id?: string;
   encrypted_payload: Buffer;
   message_type?: string;
-  file_reference?: string;
+  file_reference?: string; // JSON array of attachment IDs
+  group_id?: string;
 }
 
 // Device types
@@ -79,6 +97,26 @@ export interface Device {
   created_at: Date;
 }
 
+// Group types
+export type GroupRole = 'admin' | 'member';
+
+export interface Group {
+  id: string;
+  name?: string;
+  created_by?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface GroupMember {
+  id: string;
+  group_id: string;
+  user_id: string;
+  role: GroupRole;
+  added_by?: string;
+  created_at: Date;
+}
+
 // Auth Challenge types
 export interface AuthChallengeData {
   id: string;
@@ -88,10 +126,9 @@ export interface AuthChallengeData {
   created_at: Date;
 }
 
-// Pre-Key Bundle for X3DH
-export interface PreKeyBundle {
-  user_id: string;
-  username: string;
+// Pre-Key Bundle for X3DH (one entry per registered device)
+export interface DevicePreKeyBundle {
+  device_id: string;
   registration_id: number;
   identity_public_key: string;
   signed_pre_key: {
@@ -99,12 +136,41 @@ export interface PreKeyBundle {
     public_key: string;
     signature: string;
   };
+  // Falls back to the device's last-resort key once its one-time pool is empty
   one_time_pre_key?: {
     key_id: number;
     public_key: string;
+    last_resort: boolean;
+  };
+  // PQXDH: omitted when the device has not uploaded any Kyber pre-keys
+  kyber_pre_key?: {
+    key_id: number;
+    public_key: string;
+    signature: string;
+    last_resort: boolean;
   };
 }
 
+export interface PreKeyBundle {
+  user_id: string;
+  username: string;
+  devices: DevicePreKeyBundle[];
+}
+
+// Signed pre-key rotation status reported to the owning device
+export interface SignedPreKeyStatus {
+  key_id: number | null;
+  created_at: Date | null;
+  max_age_days: number;
+  rotate_by: Date | null;
+  needs_rotation: boolean;
+}
+
+// Call types
+export type CallType = 'audio' | 'video';
+
+export type CallState = 'ringing' | 'active' | 'ended';
+
 // API Response types
 export interface ApiResponse<T = unknown> {
   success: boolean;
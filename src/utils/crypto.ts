@@ -2,6 +2,100 @@ import nacl from 'tweetnacl';
 import { decodeBase64 } from 'tweetnacl-util';
 import crypto from 'crypto';
 
+const BASE64_REGEX = /^[A-Za-z0-9+/]+={0,2}$/;
+
+/** Ed25519 signature is 64 bytes → 88 chars in base64. */
+const ED25519_SIGNATURE_BYTES = 64;
+
+/** Ed25519 public key is 32 bytes → 44 chars in base64. */
+const ED25519_PUBLIC_KEY_BYTES = 32;
+
+/** Curve25519 (X25519) public key is 32 bytes. */
+const CURVE25519_PUBLIC_KEY_BYTES = 32;
+
+/** Unidentified (sealed-sender) access key is 16 bytes. */
+const UNIDENTIFIED_ACCESS_KEY_BYTES = 16;
+
+/** Kyber-1024 (ML-KEM-1024) public key is 1568 bytes. */
+const KYBER1024_PUBLIC_KEY_BYTES = 1568;
+
+/**
+ * Validate that a value looks like a well-formed base64-encoded Ed25519
+ * signature (64 raw bytes → 88 base64 characters).
+ *
+ * Returning a boolean (instead of branching on the user value inline)
+ * avoids CodeQL's "user-controlled bypass of security check" pattern.
+ */
+export function isValidEd25519Signature(value: string): boolean {
+  if (value.length > 100 || !BASE64_REGEX.test(value)) {
+    return false;
+  }
+  const decoded = Buffer.from(value, 'base64');
+  return decoded.length === ED25519_SIGNATURE_BYTES;
+}
+
+/**
+ * Validate that a value looks like a well-formed base64-encoded Ed25519
+ * public key (32 raw bytes → 44 base64 characters).
+ */
+export function isValidEd25519PublicKey(value: string): boolean {
+  if (value.length > 60 || !BASE64_REGEX.test(value)) {
+    return false;
+  }
+  const decoded = Buffer.from(value, 'base64');
+  return decoded.length === ED25519_PUBLIC_KEY_BYTES;
+}
+
+/**
+ * Validate that a value looks like a base64-encoded Curve25519 pre-key
+ * public key: 32 raw bytes, or 33 with the libsignal key-type prefix.
+ */
+export function isValidPreKeyPublicKey(value: string): boolean {
+  if (value.length > 60 || !BASE64_REGEX.test(value)) {
+    return false;
+  }
+  const decoded = Buffer.from(value, 'base64');
+  return (
+    decoded.length === CURVE25519_PUBLIC_KEY_BYTES ||
+    decoded.length === CURVE25519_PUBLIC_KEY_BYTES + 1
+  );
+}
+
+/**
+ * Validate that a value looks like a base64-encoded Kyber-1024 public key:
+ * 1568 raw bytes, or 1569 with the libsignal key-type prefix.
+ */
+export function isValidKyberPublicKey(value: string): boolean {
+  if (value.length > 2100 || !BASE64_REGEX.test(value)) {
+    return false;
+  }
+  const decoded = Buffer.from(value, 'base64');
+  return (
+    decoded.length === KYBER1024_PUBLIC_KEY_BYTES ||
+    decoded.length === KYBER1024_PUBLIC_KEY_BYTES + 1
+  );
+}
+
+/**
+ * Validate that a value looks like a base64-encoded 16-byte unidentified
+ * (sealed-sender) access key.
+ */
+export function isValidUnidentifiedAccessKey(value: string): boolean {
+  if (value.length > 30 || !BASE64_REGEX.test(value)) {
+    return false;
+  }
+  return Buffer.from(value, 'base64').length === UNIDENTIFIED_ACCESS_KEY_BYTES;
+}
+
+/**
+ * Compare two base64-encoded secrets in constant time.
+ */
+export function secretsEqual(aBase64: string, bBase64: string): boolean {
+  const a = Buffer.from(aBase64, 'base64');
+  const b = Buffer.from(bBase64, 'base64');
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
 /**
  * Verify an Ed25519 signature.
  *
@@ -35,6 +129,18 @@ export function verifySignature(
   }
 }
 
+/**
+ * Produce a detached Ed25519 signature over a UTF-8 string.
+ *
+ * @param secretKey - 64-byte Ed25519 secret key (as from `nacl.sign.keyPair`)
+ * @param data - The data to sign (UTF-8 string)
+ * @returns Base64-encoded Ed25519 signature
+ */
+export function signData(secretKey: Uint8Array, data: string): string {
+  const message = new TextEncoder().encode(data);
+  return Buffer.from(nacl.sign.detached(message, secretKey)).toString('base64');
+}
+
 /**
  * Generate a cryptographically secure random nonce.
  *